@@ -15,7 +15,9 @@ import { useFonts } from "expo-font"
 import React, { useEffect, useState } from "react"
 import { initialWindowMetrics, SafeAreaProvider } from "react-native-safe-area-context"
 import * as Linking from "expo-linking"
-import { ConvexProvider, ConvexReactClient } from "convex/react"
+import { ConvexReactClient } from "convex/react"
+import { ConvexAuthProvider } from "@convex-dev/auth/react"
+import AsyncStorage from "@react-native-async-storage/async-storage"
 import { AppNavigator, useNavigationPersistence } from "./navigators"
 import { ErrorBoundary } from "./components/ErrorBoundary"
 import * as storage from "./utils/storage/storage"
@@ -110,7 +112,7 @@ function App(props: AppProps) {
 
   // otherwise, we're ready to render the app
   return (
-    <ConvexProvider client={convex}>
+    <ConvexAuthProvider client={convex} storage={AsyncStorage}>
       <SafeAreaProvider initialMetrics={initialWindowMetrics}>
         <ErrorBoundary catchErrors={Config.catchErrors}>
           <GestureHandlerRootView style={$container}>
@@ -122,7 +124,7 @@ function App(props: AppProps) {
           </GestureHandlerRootView>
         </ErrorBoundary>
       </SafeAreaProvider>
-    </ConvexProvider>
+    </ConvexAuthProvider>
   )
 }
 
@@ -29,7 +29,7 @@ interface ChatPanelProps {
   isOpen: boolean;
   onClose: () => void;
   roomId: Id<'rooms'>;
-  currentParticipant: string;
+  currentParticipant: string; // Signed-in user's participant ID
   typingUsers: string[];
   onTyping: (isTyping: boolean) => void;
   onMessagesRead: () => void;
@@ -99,7 +99,6 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
     try {
       await sendMessageMutation({
         roomId,
-        participantId: currentParticipant,
         message: newMessage,
       });
       setNewMessage('');
@@ -118,7 +117,6 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
     try {
       await addReactionMutation({
         messageId: messageId as Id<'messages'>,
-        participantId: currentParticipant,
         emoji,
       });
     } catch (error) {
@@ -184,7 +182,7 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
                     <MessageItem
                       key={msg._id}
                       message={msg.message}
-                      participantId={msg.participantId}
+                      displayName={msg.displayName}
                       timestamp={msg.createdAt}
                       isCurrentUser={msg.participantId === currentParticipant}
                       reactions={msgReactions}
@@ -0,0 +1,204 @@
+/**
+ * LobbyPanel Component
+ * Pre-voting lobby: everyone readies up and the host starts voting for the whole room
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button } from 'app/components/ui/Button';
+import { Card } from 'app/components/ui/Card';
+
+const IS_TV = Platform.isTV;
+
+interface LobbyParticipant {
+  participantId: string;
+  displayName: string;
+  isReady: boolean;
+  isHost: boolean;
+}
+
+interface LobbyPanelProps {
+  roomCode: string;
+  participants: LobbyParticipant[];
+  readyCount: number;
+  isDeckReady: boolean;
+  nominationsOnly?: boolean; // The deck fills up as people nominate
+  deckHint?: string; // How the deck will be built, when it isn't obvious
+  isReady: boolean;
+  isHost: boolean;
+  errorMessage?: string;
+  children?: React.ReactNode; // Shown under the ready check (e.g. nominations)
+  onToggleReady: () => void;
+  onStart: () => void;
+  onLeave: () => void;
+}
+
+export const LobbyPanel: React.FC<LobbyPanelProps> = ({
+  roomCode,
+  participants,
+  readyCount,
+  isDeckReady,
+  nominationsOnly = false,
+  deckHint,
+  isReady,
+  isHost,
+  errorMessage,
+  children,
+  onToggleReady,
+  onStart,
+  onLeave,
+}) => {
+  return (
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      <Text style={styles.title}>Room {roomCode}</Text>
+      <Text style={styles.subtitle}>
+        {isHost
+          ? 'Start voting when everyone is here'
+          : 'Waiting for the host to start voting...'}
+      </Text>
+
+      <Card variant="elevated" padding="large" style={styles.card}>
+        <View style={styles.headerRow}>
+          <Text style={styles.cardTitle}>Ready Check</Text>
+          <Text style={styles.readyCount}>
+            {readyCount} of {participants.length} ready
+          </Text>
+        </View>
+
+        {participants.map((participant) => (
+          <View key={participant.participantId} style={styles.participantRow}>
+            <Text style={styles.participantName} numberOfLines={1}>
+              {participant.displayName}
+              {participant.isHost ? ' (Host)' : ''}
+            </Text>
+            <Ionicons
+              name={participant.isReady ? 'checkmark-circle' : 'ellipse-outline'}
+              size={IS_TV ? 32 : 22}
+              color={participant.isReady ? '#34C759' : '#8E8E93'}
+            />
+          </View>
+        ))}
+
+        {deckHint && <Text style={styles.deckHint}>{deckHint}</Text>}
+
+        {!isDeckReady && (
+          <Text style={styles.deckText}>
+            {nominationsOnly ? 'Waiting for the first nomination...' : 'Loading the movie deck...'}
+          </Text>
+        )}
+      </Card>
+
+      {children}
+
+      {errorMessage && <Text style={styles.errorText}>{errorMessage}</Text>}
+
+      <View style={styles.actions}>
+        <Button
+          title={isReady ? "I'm Not Ready" : "I'm Ready"}
+          variant={isReady ? 'outline' : 'secondary'}
+          size="large"
+          fullWidth
+          onPress={onToggleReady}
+        />
+        {isHost && (
+          <Button
+            title={isDeckReady ? 'Start Voting' : nominationsOnly ? 'Waiting for Nominations...' : 'Loading Movies...'}
+            variant="primary"
+            size="large"
+            fullWidth
+            disabled={!isDeckReady}
+            onPress={onStart}
+            style={styles.startButton}
+          />
+        )}
+        <Button
+          title="Leave Room"
+          variant="ghost"
+          size="medium"
+          fullWidth
+          onPress={onLeave}
+        />
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    paddingHorizontal: IS_TV ? 120 : 20,
+    paddingVertical: 24,
+  },
+  title: {
+    fontSize: IS_TV ? 48 : 28,
+    fontWeight: 'bold',
+    color: '#fff',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: IS_TV ? 24 : 15,
+    color: '#B0B0B5',
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: IS_TV ? 28 : 18,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  readyCount: {
+    fontSize: IS_TV ? 22 : 14,
+    fontWeight: '600',
+    color: '#34C759',
+  },
+  participantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: IS_TV ? 14 : 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  participantName: {
+    flex: 1,
+    fontSize: IS_TV ? 24 : 16,
+    color: '#fff',
+    marginRight: 12,
+  },
+  deckText: {
+    fontSize: IS_TV ? 20 : 13,
+    color: '#FF9500',
+    marginTop: 12,
+  },
+  deckHint: {
+    fontSize: IS_TV ? 20 : 13,
+    color: '#8E8E93',
+    marginTop: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#FF453A',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  actions: {
+    gap: 12,
+  },
+  startButton: {
+    marginTop: 4,
+  },
+});
+
+export default LobbyPanel;
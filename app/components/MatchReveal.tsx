@@ -0,0 +1,107 @@
+/**
+ * MatchReveal Component
+ * Full-screen "It's a match!" reveal shown when a unanimous match ends the room
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, Image, Animated, Platform } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Button } from 'app/components/ui/Button';
+
+const IS_TV = Platform.isTV;
+
+interface MatchRevealProps {
+  title: string;
+  posterPath?: string | null;
+  onViewResults: () => void;
+}
+
+export const MatchReveal: React.FC<MatchRevealProps> = ({ title, posterPath, onViewResults }) => {
+  const scale = useRef(new Animated.Value(0.6)).current;
+  const opacity = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    Animated.parallel([
+      Animated.spring(scale, { toValue: 1, friction: 5, useNativeDriver: true }),
+      Animated.timing(opacity, { toValue: 1, duration: 300, useNativeDriver: true }),
+    ]).start();
+  }, [scale, opacity]);
+
+  return (
+    <LinearGradient
+      colors={['#0F0F23', '#3b0d1a', '#0F0F23']}
+      style={styles.container}
+      start={{ x: 0, y: 0 }}
+      end={{ x: 1, y: 1 }}
+    >
+      <Animated.View style={[styles.content, { opacity, transform: [{ scale }] }]}>
+        <Text style={styles.heading}>It's a match!</Text>
+        <Text style={styles.subheading}>Everyone liked</Text>
+
+        {posterPath ? (
+          <Image
+            source={{ uri: `https://image.tmdb.org/t/p/w500${posterPath}` }}
+            style={styles.poster}
+            resizeMode="cover"
+          />
+        ) : (
+          <View style={[styles.poster, styles.posterPlaceholder]} />
+        )}
+
+        <Text style={styles.title}>{title}</Text>
+
+        <Button
+          title="See Results"
+          variant="primary"
+          size="large"
+          onPress={onViewResults}
+          style={styles.button}
+        />
+      </Animated.View>
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  heading: {
+    fontSize: IS_TV ? 72 : 40,
+    fontWeight: 'bold',
+    color: '#ef4444',
+  },
+  subheading: {
+    fontSize: IS_TV ? 28 : 16,
+    color: '#B0B0B5',
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  poster: {
+    width: IS_TV ? 320 : 200,
+    height: IS_TV ? 480 : 300,
+    borderRadius: 16,
+  },
+  posterPlaceholder: {
+    backgroundColor: '#2C2C2E',
+  },
+  title: {
+    fontSize: IS_TV ? 40 : 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  button: {
+    marginTop: 32,
+    minWidth: IS_TV ? 360 : 220,
+  },
+});
+
+export default MatchReveal;
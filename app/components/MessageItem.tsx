@@ -15,7 +15,7 @@ export interface MessageReaction {
 
 interface MessageItemProps {
   message: string;
-  participantId: string;
+  displayName: string;
   timestamp: number;
   isCurrentUser: boolean;
   reactions?: MessageReaction[];
@@ -27,7 +27,7 @@ const quickReactions = ['👍', '❤️', '😂'];
 
 export const MessageItem: React.FC<MessageItemProps> = ({
   message,
-  participantId,
+  displayName,
   timestamp,
   isCurrentUser,
   reactions = [],
@@ -59,7 +59,7 @@ export const MessageItem: React.FC<MessageItemProps> = ({
         </LinearGradient>
       ) : (
         <View style={[styles.bubble, styles.bubbleLeft]}>
-          <Text style={styles.senderName}>{participantId}</Text>
+          <Text style={styles.senderName}>{displayName}</Text>
           <Text style={[styles.messageText, styles.messageTextLeft]}>{message}</Text>
           <Text style={[styles.timestamp, styles.timestampLeft]}>
             {formatTime(timestamp)}
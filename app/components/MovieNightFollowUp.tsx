@@ -0,0 +1,140 @@
+/**
+ * MovieNightFollowUp Component
+ * Asks whether a saved Movie Nights winner was watched, with an optional star rating
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button } from 'app/components/ui/Button';
+import { Card } from 'app/components/ui/Card';
+
+const IS_TV = Platform.isTV;
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+interface MovieNightFollowUpProps {
+  title: string;
+  mediaType: 'movie' | 'tv';
+  posterPath: string | null;
+  errorMessage?: string;
+  onWatched: (rating: number | null) => void;
+  onNotYet: () => void;
+}
+
+export const MovieNightFollowUp: React.FC<MovieNightFollowUpProps> = ({
+  title,
+  mediaType,
+  posterPath,
+  errorMessage,
+  onWatched,
+  onNotYet,
+}) => {
+  const [rating, setRating] = useState<number | null>(null);
+
+  return (
+    <Card variant="elevated" padding="large" style={styles.card}>
+      <View style={styles.row}>
+        {posterPath ? (
+          <Image
+            source={{ uri: `https://image.tmdb.org/t/p/w185${posterPath}` }}
+            style={styles.poster}
+            resizeMode="cover"
+          />
+        ) : null}
+        <View style={styles.info}>
+          <Text style={styles.eyebrow}>{mediaType === 'tv' ? 'Show night' : 'Movie night'}</Text>
+          <Text style={styles.title} numberOfLines={2}>
+            Did you watch {title}?
+          </Text>
+          <View style={styles.stars}>
+            {RATINGS.map((value) => (
+              <TouchableOpacity
+                key={value}
+                onPress={() => setRating(rating === value ? null : value)}
+                focusable={true}
+              >
+                <Ionicons
+                  name={rating !== null && value <= rating ? 'star' : 'star-outline'}
+                  size={IS_TV ? 36 : 26}
+                  color="#FFD700"
+                />
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </View>
+
+      <View style={styles.actions}>
+        <Button
+          title="Not Yet"
+          variant="outline"
+          size="small"
+          onPress={onNotYet}
+          style={styles.actionButton}
+        />
+        <Button
+          title={rating !== null ? 'Watched & Rate' : 'Watched It'}
+          variant="primary"
+          size="small"
+          onPress={() => onWatched(rating)}
+          style={styles.actionButton}
+        />
+      </View>
+
+      {errorMessage && <Text style={styles.errorText}>{errorMessage}</Text>}
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    width: '100%',
+    marginBottom: 24,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  poster: {
+    width: IS_TV ? 90 : 60,
+    height: IS_TV ? 135 : 90,
+    borderRadius: 8,
+    backgroundColor: '#2C2C2E',
+  },
+  info: {
+    flex: 1,
+  },
+  eyebrow: {
+    fontSize: IS_TV ? 18 : 12,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+  },
+  title: {
+    fontSize: IS_TV ? 26 : 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginTop: 4,
+  },
+  stars: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#FF453A',
+    marginTop: 8,
+  },
+});
+
+export default MovieNightFollowUp;
@@ -0,0 +1,215 @@
+/**
+ * NominationPanel Component
+ * Lobby search where each participant nominates their own picks for the deck
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button } from 'app/components/ui/Button';
+import { Card } from 'app/components/ui/Card';
+import { Input } from 'app/components/ui/Input';
+import { NominationCandidate } from 'app/hooks/useNominations';
+
+const IS_TV = Platform.isTV;
+
+interface Nomination {
+  movieId: string;
+  tmdbId: number;
+  title: string;
+  releaseDate: string | null;
+  participantId: string;
+  nominatedBy: string;
+}
+
+interface NominationPanelProps {
+  limit: number;
+  nominationsLeft: number;
+  nominations: Nomination[];
+  myParticipantId: string | null;
+  results: NominationCandidate[];
+  isSearching: boolean;
+  isNominating: boolean;
+  errorMessage?: string;
+  onSearch: (query: string) => void;
+  onNominate: (candidate: NominationCandidate) => void;
+  onWithdraw: (movieId: string) => void;
+}
+
+const getYear = (date?: string | null) => (date ? date.slice(0, 4) : '');
+
+export const NominationPanel: React.FC<NominationPanelProps> = ({
+  limit,
+  nominationsLeft,
+  nominations,
+  myParticipantId,
+  results,
+  isSearching,
+  isNominating,
+  errorMessage,
+  onSearch,
+  onNominate,
+  onWithdraw,
+}) => {
+  const [query, setQuery] = useState('');
+  const nominatedTmdbIds = new Set(nominations.map((nomination) => nomination.tmdbId));
+
+  return (
+    <Card variant="elevated" padding="large" style={styles.card}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>Nominations</Text>
+        <Text style={styles.count}>
+          {limit - nominationsLeft} of {limit} used
+        </Text>
+      </View>
+
+      {nominations.map((nomination) => {
+        const isMine = nomination.participantId === myParticipantId;
+        return (
+          <View key={nomination.movieId} style={styles.nominationRow}>
+            <View style={styles.nominationInfo}>
+              <Text style={styles.nominationTitle} numberOfLines={1}>
+                {nomination.title}
+                {nomination.releaseDate ? ` (${getYear(nomination.releaseDate)})` : ''}
+              </Text>
+              <Text style={styles.nominatedBy}>
+                {isMine ? 'Your pick' : `Nominated by ${nomination.nominatedBy}`}
+              </Text>
+            </View>
+            {isMine && (
+              <TouchableOpacity onPress={() => onWithdraw(nomination.movieId)} focusable={true}>
+                <Ionicons name="close-circle" size={IS_TV ? 32 : 22} color="#8E8E93" />
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+
+      {nominationsLeft > 0 && (
+        <>
+          <View style={styles.searchRow}>
+            <Input
+              placeholder="Search for a title"
+              value={query}
+              onChangeText={setQuery}
+              onSubmitEditing={() => onSearch(query)}
+              returnKeyType="search"
+              containerStyle={styles.searchInput}
+            />
+            <Button
+              title="Search"
+              variant="secondary"
+              size="small"
+              onPress={() => onSearch(query)}
+              disabled={!query.trim() || isSearching}
+            />
+          </View>
+
+          {isSearching && <ActivityIndicator color="#ef4444" style={styles.spinner} />}
+
+          {results.map((result) => {
+            const isNominated = nominatedTmdbIds.has(result.tmdbId);
+            return (
+              <TouchableOpacity
+                key={`${result.mediaType}-${result.tmdbId}`}
+                style={styles.resultRow}
+                onPress={() => onNominate(result)}
+                disabled={isNominated || isNominating}
+                focusable={!isNominated}
+              >
+                <Text style={styles.resultTitle} numberOfLines={1}>
+                  {result.title}
+                  {result.releaseDate ? ` (${getYear(result.releaseDate)})` : ''}
+                </Text>
+                <Ionicons
+                  name={isNominated ? 'checkmark-circle' : 'add-circle-outline'}
+                  size={IS_TV ? 32 : 22}
+                  color={isNominated ? '#34C759' : '#ef4444'}
+                />
+              </TouchableOpacity>
+            );
+          })}
+        </>
+      )}
+
+      {errorMessage && <Text style={styles.errorText}>{errorMessage}</Text>}
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: IS_TV ? 28 : 18,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  count: {
+    fontSize: IS_TV ? 20 : 13,
+    color: '#8E8E93',
+  },
+  nominationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: IS_TV ? 12 : 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  nominationInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  nominationTitle: {
+    fontSize: IS_TV ? 22 : 15,
+    color: '#fff',
+  },
+  nominatedBy: {
+    fontSize: IS_TV ? 18 : 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  searchInput: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  spinner: {
+    marginVertical: 8,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: IS_TV ? 16 : 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    marginTop: 8,
+  },
+  resultTitle: {
+    flex: 1,
+    fontSize: IS_TV ? 22 : 15,
+    color: '#fff',
+    marginRight: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#FF453A',
+    marginTop: 8,
+  },
+});
+
+export default NominationPanel;
@@ -1,6 +1,7 @@
 /**
  * ParticipantsList Component
- * Modal displaying all room participants with voting status using Convex
+ * Modal displaying all room participants with presence and voting status using Convex.
+ * The host also gets remove / make-host / wait-for actions and room lock / close voting controls.
  */
 
 import React, { useMemo } from 'react';
@@ -13,10 +14,12 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   Pressable,
+  Alert,
 } from 'react-native';
 import { useQuery } from 'convex/react';
 import { api } from 'convex/_generated/api';
 import type { Id } from 'convex/_generated/dataModel';
+import { useHostControls } from 'app/hooks/useHostControls';
 
 interface ParticipantsListProps {
   roomId: string;
@@ -25,17 +28,42 @@ interface ParticipantsListProps {
   participants: string[];
 }
 
+type PresenceState = 'online' | 'idle' | 'offline';
+
 interface ParticipantWithStatus {
   participantId: string;
+  displayName: string;
   votingCompleted: boolean;
+  presence: PresenceState;
+  isCounted: boolean; // Whether completion waits for them
+  countOverride: boolean | null; // Host override, null when following presence
 }
 
+const PRESENCE_LABELS: Record<PresenceState, string> = {
+  online: 'Online',
+  idle: 'Idle',
+  offline: 'Offline',
+};
+
 const ParticipantsList: React.FC<ParticipantsListProps> = ({
   roomId,
   isOpen,
   onClose,
   participants: participantNames,
 }) => {
+  const {
+    hostId,
+    isHost: isCurrentHost,
+    isLocked,
+    isVotingOpen,
+    error: hostError,
+    removeParticipant,
+    transferHost,
+    setCounted,
+    setLocked,
+    closeVoting,
+  } = useHostControls(roomId);
+
   // Query participants with voting status from Convex (auto-reactive!)
   const participants = useQuery(
     api.rooms.getParticipants,
@@ -48,35 +76,111 @@ const ParticipantsList: React.FC<ParticipantsListProps> = ({
 
     return participants.map(p => ({
       participantId: p.participantId,
-      votingCompleted: p.votingCompletedAt !== null,
+      displayName: p.displayName,
+      votingCompleted: p.votingCompletedAt !== undefined,
+      presence: p.presence,
+      isCounted: p.isCounted,
+      countOverride: p.countInCompletion ?? null,
     }));
   }, [participants]);
 
   const isLoading = participants === undefined;
 
-  const renderParticipant = ({ item, index }: { item: ParticipantWithStatus; index: number }) => {
-    const isHost = index === 0;
+  const confirmRemove = (participant: ParticipantWithStatus) => {
+    Alert.alert(
+      'Remove Participant',
+      `Remove ${participant.displayName} from the room? Their votes will be discarded.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => removeParticipant(participant.participantId) },
+      ]
+    );
+  };
+
+  const confirmCloseVoting = () => {
+    Alert.alert(
+      'Finish Now',
+      'End voting for everyone with the votes cast so far and go to the results?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Finish Now', style: 'destructive', onPress: () => closeVoting() },
+      ]
+    );
+  };
+
+  const renderParticipant = ({ item }: { item: ParticipantWithStatus }) => {
+    const isHost = item.participantId === hostId;
     const isCompleted = item.votingCompleted;
+    const isInactive = !isCompleted && !item.isCounted;
+    const showHostActions = isCurrentHost && !isHost;
+    // Only offer the override for people who dropped off (or were already overridden)
+    const showCountToggle = showHostActions && !isCompleted && (item.presence !== 'online' || item.countOverride !== null);
 
     return (
       <View style={styles.participantItem}>
         <View style={styles.participantInfo}>
-          <Text style={styles.participantName}>{item.participantId}</Text>
+          <View
+            testID={`presence-${item.presence}-${item.participantId}`}
+            style={[styles.presenceDot, styles[`presence_${item.presence}`]]}
+            accessibilityLabel={PRESENCE_LABELS[item.presence]}
+          />
+          <View>
+            <Text style={styles.participantName}>{item.displayName}</Text>
+            {item.presence !== 'online' && (
+              <Text style={styles.presenceText}>
+                {PRESENCE_LABELS[item.presence]}
+                {isInactive ? ' • not waited for' : ''}
+              </Text>
+            )}
+          </View>
           {isHost && (
             <View style={styles.hostBadge}>
               <Text style={styles.hostBadgeText}>Host</Text>
             </View>
           )}
         </View>
+        {showHostActions && (
+          <View style={styles.hostActions}>
+            {showCountToggle && (
+              <TouchableOpacity
+                onPress={() => setCounted(item.participantId, !item.isCounted)}
+                style={styles.hostActionButton}
+                focusable={true}
+              >
+                <Text style={styles.hostActionText}>{item.isCounted ? "Don't Wait" : 'Wait For'}</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              onPress={() => transferHost(item.participantId)}
+              style={styles.hostActionButton}
+              focusable={true}
+            >
+              <Text style={styles.hostActionText}>Make Host</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => confirmRemove(item)}
+              style={[styles.hostActionButton, styles.removeButton]}
+              focusable={true}
+            >
+              <Text style={[styles.hostActionText, styles.removeButtonText]}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        )}
         <View
-          testID={`status-icon-${isCompleted ? 'completed' : 'pending'}-${item.participantId}`}
+          testID={`status-icon-${isCompleted ? 'completed' : isInactive ? 'inactive' : 'pending'}-${item.participantId}`}
           style={[
             styles.statusIcon,
-            isCompleted ? styles.statusIconCompleted : styles.statusIconPending,
+            isCompleted
+              ? styles.statusIconCompleted
+              : isInactive
+                ? styles.statusIconInactive
+                : styles.statusIconPending,
           ]}
         >
           {isCompleted ? (
             <Text style={styles.statusIconText}>✓</Text>
+          ) : isInactive ? (
+            <Text style={styles.statusIconText}>–</Text>
           ) : (
             <ActivityIndicator size="small" color="#FF9500" />
           )}
@@ -135,6 +239,29 @@ const ParticipantsList: React.FC<ParticipantsListProps> = ({
             />
           )}
 
+          {/* Host controls */}
+          {isCurrentHost && (
+            <View style={styles.hostControls}>
+              <TouchableOpacity
+                onPress={() => setLocked(!isLocked)}
+                style={styles.hostControlButton}
+                focusable={true}
+              >
+                <Text style={styles.hostControlText}>{isLocked ? '🔓 Unlock Room' : '🔒 Lock Room'}</Text>
+              </TouchableOpacity>
+              {isVotingOpen && (
+                <TouchableOpacity
+                  onPress={confirmCloseVoting}
+                  style={[styles.hostControlButton, styles.closeVotingButton]}
+                  focusable={true}
+                >
+                  <Text style={styles.hostControlText}>Finish Now</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+          {hostError && <Text style={styles.errorText}>{hostError.message}</Text>}
+
           {/* Legend */}
           {!isLoading && participantDetails.length > 0 && (
             <View style={styles.legend}>
@@ -150,6 +277,12 @@ const ParticipantsList: React.FC<ParticipantsListProps> = ({
                 </View>
                 <Text style={styles.legendText}>Voting in progress</Text>
               </View>
+              <View style={styles.legendItem}>
+                <View style={[styles.legendIcon, styles.statusIconInactive]}>
+                  <Text style={styles.statusIconText}>–</Text>
+                </View>
+                <Text style={styles.legendText}>Away</Text>
+              </View>
             </View>
           )}
         </Pressable>
@@ -224,6 +357,26 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '500',
   },
+  presenceDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 10,
+  },
+  presence_online: {
+    backgroundColor: '#34C759',
+  },
+  presence_idle: {
+    backgroundColor: '#FF9500',
+  },
+  presence_offline: {
+    backgroundColor: '#636366',
+  },
+  presenceText: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
   hostBadge: {
     backgroundColor: '#FFD700',
     paddingHorizontal: 8,
@@ -236,6 +389,56 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#000',
   },
+  hostActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  hostActionButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#2C2C2E',
+    marginLeft: 8,
+  },
+  hostActionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  removeButton: {
+    backgroundColor: 'rgba(255, 69, 58, 0.15)',
+  },
+  removeButtonText: {
+    color: '#FF453A',
+  },
+  hostControls: {
+    flexDirection: 'row',
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    gap: 12,
+  },
+  hostControlButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: '#2C2C2E',
+    alignItems: 'center',
+  },
+  closeVotingButton: {
+    backgroundColor: '#ef4444',
+  },
+  hostControlText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#FF453A',
+    paddingHorizontal: 20,
+    paddingTop: 8,
+  },
   statusIcon: {
     width: 32,
     height: 32,
@@ -251,6 +454,11 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderColor: '#FF9500',
   },
+  statusIconInactive: {
+    backgroundColor: '#2C2C2E',
+    borderWidth: 2,
+    borderColor: '#636366',
+  },
   statusIconText: {
     fontSize: 16,
     color: '#fff',
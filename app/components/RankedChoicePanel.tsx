@@ -0,0 +1,272 @@
+/**
+ * RankedChoicePanel Component
+ * Lets participants rank the runoff finalists and shows the instant-runoff count
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button } from 'app/components/ui/Button';
+import { Card } from 'app/components/ui/Card';
+
+const IS_TV = Platform.isTV;
+
+interface Finalist {
+  _id: string;
+  title: string;
+}
+
+interface RunoffRound {
+  tallies: Array<{ movieId: string; votes: number }>;
+  eliminatedId: string | null;
+}
+
+interface RankedChoicePanelProps {
+  finalists: Finalist[];
+  rounds: RunoffRound[];
+  winnerId: string | null; // Null until the runoff closes
+  isClosed: boolean;
+  ballotsCast: number;
+  totalParticipants: number;
+  myRankings: string[] | null;
+  isHost: boolean;
+  canVote: boolean;
+  isSubmitting: boolean;
+  errorMessage?: string;
+  onSubmit: (rankings: string[]) => void;
+  onClose: () => void;
+}
+
+export const RankedChoicePanel: React.FC<RankedChoicePanelProps> = ({
+  finalists,
+  rounds,
+  winnerId,
+  isClosed,
+  ballotsCast,
+  totalParticipants,
+  myRankings,
+  isHost,
+  canVote,
+  isSubmitting,
+  errorMessage,
+  onSubmit,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<string[]>(myRankings ?? []);
+
+  // Pick up the saved ballot once it loads
+  useEffect(() => {
+    if (myRankings) setDraft(myRankings);
+  }, [myRankings]);
+
+  const titleFor = (movieId: string) =>
+    finalists.find((finalist) => finalist._id === movieId)?.title ?? 'Unknown';
+
+  // Tap to append to the ranking, tap again to remove
+  const toggleFinalist = (movieId: string) => {
+    setDraft((prev) =>
+      prev.includes(movieId) ? prev.filter((id) => id !== movieId) : [...prev, movieId]
+    );
+  };
+
+  if (finalists.length === 0) return null;
+
+  return (
+    <Card variant="elevated" padding="large" style={styles.card}>
+      <View style={styles.headerRow}>
+        <Ionicons name="podium" size={IS_TV ? 32 : 20} color="#FFD60A" />
+        <Text style={styles.title}>Ranked-Choice Runoff</Text>
+      </View>
+      <Text style={styles.subtitle}>
+        {ballotsCast} of {totalParticipants} ranking{totalParticipants === 1 ? '' : 's'} in
+      </Text>
+
+      {canVote && !isClosed && (
+        <>
+          <Text style={styles.hint}>Tap the finalists in order of preference</Text>
+          {finalists.map((finalist) => {
+            const rank = draft.indexOf(finalist._id);
+            return (
+              <TouchableOpacity
+                key={finalist._id}
+                style={[styles.finalistRow, rank >= 0 && styles.finalistRowSelected]}
+                onPress={() => toggleFinalist(finalist._id)}
+                focusable={true}
+              >
+                <View style={[styles.rankBadge, rank >= 0 && styles.rankBadgeSelected]}>
+                  <Text style={styles.rankBadgeText}>{rank >= 0 ? rank + 1 : '–'}</Text>
+                </View>
+                <Text style={styles.finalistTitle} numberOfLines={1}>{finalist.title}</Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          <View style={styles.actionsRow}>
+            <Button
+              title="Clear"
+              variant="outline"
+              size="small"
+              onPress={() => setDraft([])}
+              disabled={draft.length === 0}
+              style={styles.actionButton}
+            />
+            <Button
+              title={myRankings ? 'Update Ranking' : 'Submit Ranking'}
+              variant="primary"
+              size="small"
+              isLoading={isSubmitting}
+              onPress={() => onSubmit(draft)}
+              disabled={draft.length === 0}
+              style={styles.actionButton}
+            />
+          </View>
+        </>
+      )}
+
+      {isHost && !isClosed && ballotsCast > 0 && (
+        <Button
+          title="Close Runoff"
+          variant="secondary"
+          size="small"
+          onPress={onClose}
+          style={styles.closeButton}
+        />
+      )}
+
+      {errorMessage && <Text style={styles.errorText}>{errorMessage}</Text>}
+
+      {rounds.length > 0 && (
+        <View style={styles.roundsContainer}>
+          {rounds.map((round, index) => (
+            <View key={index} style={styles.roundRow}>
+              <Text style={styles.roundLabel}>Round {index + 1}</Text>
+              <Text style={styles.roundText}>
+                {round.tallies
+                  .map((tally) => `${titleFor(tally.movieId)} ${tally.votes}`)
+                  .join(' • ')}
+              </Text>
+              {round.eliminatedId && (
+                <Text style={styles.eliminatedText}>{titleFor(round.eliminatedId)} eliminated</Text>
+              )}
+            </View>
+          ))}
+          {winnerId && (
+            <Text style={styles.winnerText}>
+              {titleFor(winnerId)} wins with a majority of rankings
+            </Text>
+          )}
+        </View>
+      )}
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontSize: IS_TV ? 28 : 18,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  subtitle: {
+    fontSize: IS_TV ? 20 : 13,
+    color: '#8E8E93',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: IS_TV ? 20 : 13,
+    color: '#B0B0B5',
+    marginBottom: 8,
+  },
+  finalistRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: IS_TV ? 16 : 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    marginBottom: 8,
+  },
+  finalistRowSelected: {
+    backgroundColor: 'rgba(255, 214, 10, 0.12)',
+  },
+  rankBadge: {
+    width: IS_TV ? 40 : 26,
+    height: IS_TV ? 40 : 26,
+    borderRadius: IS_TV ? 20 : 13,
+    backgroundColor: '#3A3A3C',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  rankBadgeSelected: {
+    backgroundColor: '#FFD60A',
+  },
+  rankBadgeText: {
+    fontSize: IS_TV ? 20 : 13,
+    fontWeight: 'bold',
+    color: '#121212',
+  },
+  finalistTitle: {
+    flex: 1,
+    fontSize: IS_TV ? 22 : 15,
+    color: '#fff',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#FF453A',
+    marginTop: 4,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  closeButton: {
+    marginTop: 8,
+  },
+  roundsContainer: {
+    marginTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+    paddingTop: 12,
+  },
+  roundRow: {
+    marginBottom: 10,
+  },
+  roundLabel: {
+    fontSize: IS_TV ? 18 : 12,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+  },
+  roundText: {
+    fontSize: IS_TV ? 20 : 14,
+    color: '#fff',
+    marginTop: 2,
+  },
+  eliminatedText: {
+    fontSize: IS_TV ? 18 : 12,
+    color: '#FF9500',
+    marginTop: 2,
+  },
+  winnerText: {
+    fontSize: IS_TV ? 22 : 15,
+    fontWeight: 'bold',
+    color: '#34C759',
+    marginTop: 4,
+  },
+});
+
+export default RankedChoicePanel;
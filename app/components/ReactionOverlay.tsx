@@ -12,6 +12,7 @@ const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 interface Reaction {
   _id: string;
   participantId: string;
+  displayName: string;
   reaction: 'like' | 'dislike';
   createdAt: number;
   movieTitle?: string;
@@ -45,7 +46,7 @@ export function ReactionOverlay({ reactions, currentParticipant }: ReactionOverl
       .map((r) => ({
         id: r._id,
         emoji: r.reaction === 'like' ? '❤️' : '👎',
-        participantName: r.participantId,
+        participantName: r.displayName,
         movieTitle: r.movieTitle || 'Unknown Movie',
         x: Math.random() * (SCREEN_WIDTH - 150) + 20, // Random x position with padding
         y: SCREEN_HEIGHT * 0.3 + Math.random() * (SCREEN_HEIGHT * 0.4), // Middle area
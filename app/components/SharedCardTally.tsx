@@ -0,0 +1,133 @@
+/**
+ * SharedCardTally Component
+ * Live tally for the shared card in synchronized voting, with the host's next-card control
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button } from 'app/components/ui/Button';
+import { Card } from 'app/components/ui/Card';
+import { useCountdown } from 'app/hooks/useCountdown';
+
+const IS_TV = Platform.isTV;
+
+interface SharedCardTallyProps {
+  movieTitle: string;
+  likes: number;
+  dislikes: number;
+  votedCount: number;
+  totalParticipants: number;
+  endsAt: number | null; // Null when the host advances the card
+  hasVoted: boolean;
+  isHost: boolean;
+  isLastCard: boolean;
+  errorMessage?: string;
+  onNext: () => void;
+}
+
+export const SharedCardTally: React.FC<SharedCardTallyProps> = ({
+  movieTitle,
+  likes,
+  dislikes,
+  votedCount,
+  totalParticipants,
+  endsAt,
+  hasVoted,
+  isHost,
+  isLastCard,
+  errorMessage,
+  onNext,
+}) => {
+  const secondsLeft = useCountdown(endsAt);
+
+  return (
+    <Card variant="elevated" padding="large" style={styles.card}>
+      <Text style={styles.title} numberOfLines={1}>{movieTitle}</Text>
+      <Text style={styles.subtitle}>
+        {votedCount} of {totalParticipants} voted
+        {secondsLeft !== null ? ` • ${secondsLeft}s left` : ''}
+      </Text>
+
+      <View style={styles.tallyRow}>
+        <View style={styles.tallyItem}>
+          <Ionicons name="thumbs-up" size={IS_TV ? 40 : 24} color="#34C759" />
+          <Text style={styles.tallyCount}>{likes}</Text>
+        </View>
+        <View style={styles.tallyItem}>
+          <Ionicons name="thumbs-down" size={IS_TV ? 40 : 24} color="#FF453A" />
+          <Text style={styles.tallyCount}>{dislikes}</Text>
+        </View>
+      </View>
+
+      {hasVoted && !isHost && (
+        <Text style={styles.hint}>
+          {endsAt ? 'Next card when the timer runs out' : 'Waiting for the host to move on...'}
+        </Text>
+      )}
+
+      {isHost && (
+        <Button
+          title={isLastCard ? 'Finish Deck' : 'Next Card'}
+          variant="primary"
+          size={IS_TV ? 'large' : 'medium'}
+          fullWidth
+          onPress={onNext}
+          style={styles.nextButton}
+        />
+      )}
+
+      {errorMessage && <Text style={styles.errorText}>{errorMessage}</Text>}
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: IS_TV ? 120 : 20,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: IS_TV ? 32 : 20,
+    fontWeight: 'bold',
+    color: '#fff',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: IS_TV ? 22 : 14,
+    color: '#B0B0B5',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  tallyRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: IS_TV ? 80 : 40,
+    marginVertical: IS_TV ? 24 : 16,
+  },
+  tallyItem: {
+    alignItems: 'center',
+    gap: 4,
+  },
+  tallyCount: {
+    fontSize: IS_TV ? 48 : 28,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  hint: {
+    fontSize: IS_TV ? 20 : 13,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+  nextButton: {
+    marginTop: 8,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#FF453A',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
+
+export default SharedCardTally;
@@ -0,0 +1,194 @@
+/**
+ * TieBreakPanel Component
+ * Shown when the top results are tied: host picks a strategy, everyone can re-vote
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button } from 'app/components/ui/Button';
+import { Card } from 'app/components/ui/Card';
+import { TieBreakStrategy } from 'app/hooks/useTieBreak';
+
+const IS_TV = Platform.isTV;
+
+const STRATEGY_OPTIONS: ReadonlyArray<{ value: TieBreakStrategy; label: string }> = [
+  { value: 'revote', label: 'Head-to-head re-vote' },
+  { value: 'rating', label: 'Best TMDB rating' },
+  { value: 'runtime', label: 'Shortest runtime' },
+  { value: 'coin_flip', label: 'Coin flip' },
+];
+
+interface TiedMovie {
+  _id: string;
+  title: string;
+}
+
+interface TieBreakPanelProps {
+  tiedMovies: TiedMovie[];
+  status: 'voting' | 'resolved' | null; // Null before the host starts a tie-break
+  tallies: Array<{ movieId: string; votes: number }>;
+  picksCast: number;
+  totalParticipants: number;
+  myPick: string | null;
+  isHost: boolean;
+  canVote: boolean;
+  errorMessage?: string;
+  onStart: (strategy: TieBreakStrategy) => void;
+  onPick: (movieId: string) => void;
+  onCloseVote: () => void;
+}
+
+export const TieBreakPanel: React.FC<TieBreakPanelProps> = ({
+  tiedMovies,
+  status,
+  tallies,
+  picksCast,
+  totalParticipants,
+  myPick,
+  isHost,
+  canVote,
+  errorMessage,
+  onStart,
+  onPick,
+  onCloseVote,
+}) => {
+  if (status === 'resolved') return null;
+
+  const votesFor = (movieId: string) =>
+    tallies.find((tally) => tally.movieId === movieId)?.votes ?? 0;
+
+  return (
+    <Card variant="elevated" padding="large" style={styles.card}>
+      <View style={styles.headerRow}>
+        <Ionicons name="git-compare" size={IS_TV ? 32 : 20} color="#FF9500" />
+        <Text style={styles.title}>It's a tie!</Text>
+      </View>
+      <Text style={styles.subtitle}>
+        {tiedMovies.map((movie) => movie.title).join(' vs ')}
+      </Text>
+
+      {status === null && isHost && (
+        <>
+          <Text style={styles.hint}>How should we break it?</Text>
+          <View style={styles.optionsGrid}>
+            {STRATEGY_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                title={option.label}
+                variant="outline"
+                size="small"
+                onPress={() => onStart(option.value)}
+                style={styles.optionButton}
+              />
+            ))}
+          </View>
+        </>
+      )}
+
+      {status === null && !isHost && (
+        <Text style={styles.hint}>Waiting for the host to break the tie...</Text>
+      )}
+
+      {status === 'voting' && (
+        <>
+          <Text style={styles.hint}>
+            Pick one • {picksCast} of {totalParticipants} picked
+          </Text>
+          {tiedMovies.map((movie) => (
+            <TouchableOpacity
+              key={movie._id}
+              style={[styles.pickRow, myPick === movie._id && styles.pickRowSelected]}
+              onPress={() => onPick(movie._id)}
+              disabled={!canVote}
+              focusable={canVote}
+            >
+              <Text style={styles.pickTitle} numberOfLines={1}>{movie.title}</Text>
+              <Text style={styles.pickVotes}>{votesFor(movie._id)}</Text>
+            </TouchableOpacity>
+          ))}
+          {isHost && (
+            <Button
+              title="Close Vote"
+              variant="secondary"
+              size="small"
+              onPress={onCloseVote}
+              style={styles.closeButton}
+            />
+          )}
+        </>
+      )}
+
+      {errorMessage && <Text style={styles.errorText}>{errorMessage}</Text>}
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontSize: IS_TV ? 28 : 18,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  subtitle: {
+    fontSize: IS_TV ? 22 : 14,
+    color: '#B0B0B5',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: IS_TV ? 20 : 13,
+    color: '#8E8E93',
+    marginBottom: 8,
+  },
+  optionsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionButton: {
+    flexGrow: 0,
+  },
+  pickRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: IS_TV ? 16 : 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    marginBottom: 8,
+  },
+  pickRowSelected: {
+    backgroundColor: 'rgba(255, 149, 0, 0.2)',
+  },
+  pickTitle: {
+    flex: 1,
+    fontSize: IS_TV ? 22 : 15,
+    color: '#fff',
+    marginRight: 12,
+  },
+  pickVotes: {
+    fontSize: IS_TV ? 22 : 15,
+    fontWeight: 'bold',
+    color: '#FF9500',
+  },
+  closeButton: {
+    marginTop: 8,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#FF453A',
+    marginTop: 8,
+  },
+});
+
+export default TieBreakPanel;
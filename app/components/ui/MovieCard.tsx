@@ -30,14 +30,24 @@ interface MovieCardProps {
   movie: Movie;
   onSwipeLeft: (movie: Movie) => void;
   onSwipeRight: (movie: Movie) => void;
+  onSuperLike?: (movie: Movie) => void; // Shown in super-like rooms
+  onRate?: (movie: Movie, score: number) => void; // Shown in star-rated rooms
+  onVeto?: (movie: Movie) => void; // Shown while the participant has vetoes left
+  vetoesRemaining?: number;
   isTopCard?: boolean;
   cardHeight?: number;
 }
 
+const STAR_SCORES = [1, 2, 3, 4, 5];
+
 export const MovieCard: React.FC<MovieCardProps> = ({
   movie,
   onSwipeLeft,
   onSwipeRight,
+  onSuperLike,
+  onRate,
+  onVeto,
+  vetoesRemaining = 0,
   isTopCard = false,
   cardHeight,
 }) => {
@@ -125,6 +135,10 @@ export const MovieCard: React.FC<MovieCardProps> = ({
     ? new Date(movie.release_date).getFullYear()
     : null;
 
+  const seasonsLabel = movie.number_of_seasons
+    ? `${movie.number_of_seasons} season${movie.number_of_seasons === 1 ? '' : 's'}`
+    : null;
+
   // TV-optimized horizontal layout
   if (IS_TV) {
     return (
@@ -157,6 +171,13 @@ export const MovieCard: React.FC<MovieCardProps> = ({
             <View>
               <Text style={tvStyles.title}>{movie.title}</Text>
 
+              {movie.nominated_by && (
+                <View style={tvStyles.nominatedRow}>
+                  <Ionicons name="hand-right-outline" size={28} color="#FF9500" />
+                  <Text style={tvStyles.nominatedText}>Nominated by {movie.nominated_by}</Text>
+                </View>
+              )}
+
               {/* Metadata row with rating */}
               <View style={tvStyles.metadataRow}>
                 {movie.vote_average && (
@@ -177,6 +198,18 @@ export const MovieCard: React.FC<MovieCardProps> = ({
                     <Text style={tvStyles.metadataText}>{movie.runtime}m</Text>
                   </View>
                 )}
+                {seasonsLabel && (
+                  <View style={tvStyles.metadataItem}>
+                    <Ionicons name="albums-outline" size={28} color="#8E8E93" />
+                    <Text style={tvStyles.metadataText}>{seasonsLabel}</Text>
+                  </View>
+                )}
+                {movie.episode_runtime && (
+                  <View style={tvStyles.metadataItem}>
+                    <Ionicons name="time-outline" size={28} color="#8E8E93" />
+                    <Text style={tvStyles.metadataText}>{movie.episode_runtime}m/ep</Text>
+                  </View>
+                )}
               </View>
 
               {/* Streaming platforms */}
@@ -208,6 +241,37 @@ export const MovieCard: React.FC<MovieCardProps> = ({
               )}
             </View>
 
+            {onRate && (
+              <View style={tvStyles.starRow}>
+                {STAR_SCORES.map((score) => (
+                  <Pressable
+                    key={score}
+                    focusable={true}
+                    style={({ focused }) => [
+                      tvStyles.starButton,
+                      focused && tvStyles.starButtonFocused,
+                    ]}
+                    onPress={() => onRate(movie, score)}
+                  >
+                    <Text style={tvStyles.starText}>{'★'.repeat(score)}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            )}
+
+            {onVeto && vetoesRemaining > 0 && (
+              <Pressable
+                focusable={true}
+                style={({ focused }) => [
+                  tvStyles.vetoButton,
+                  focused && tvStyles.vetoButtonFocused,
+                ]}
+                onPress={() => onVeto(movie)}
+              >
+                <Text style={tvStyles.vetoButtonText}>⛔ Veto ({vetoesRemaining} left)</Text>
+              </Pressable>
+            )}
+
             {/* Action Buttons */}
             <View style={tvStyles.actionButtonsContainer}>
               <Pressable
@@ -226,6 +290,19 @@ export const MovieCard: React.FC<MovieCardProps> = ({
                 <Text style={tvStyles.nopeButtonText}>Nope</Text>
               </Pressable>
 
+              {onSuperLike && (
+                <Pressable
+                  focusable={true}
+                  style={({ focused }) => [
+                    tvStyles.superLikeButton,
+                    focused && tvStyles.superLikeButtonFocused
+                  ]}
+                  onPress={() => onSuperLike(movie)}
+                >
+                  <Text style={tvStyles.superLikeButtonText}>★ Super</Text>
+                </Pressable>
+              )}
+
               <Pressable
                 focusable={true}
                 style={({ focused }) => [
@@ -301,6 +378,13 @@ export const MovieCard: React.FC<MovieCardProps> = ({
               {movie.title}
             </Text>
 
+            {movie.nominated_by && (
+              <View style={styles.nominatedRow}>
+                <Ionicons name="hand-right-outline" size={14} color="#FF9500" />
+                <Text style={styles.nominatedText}>Nominated by {movie.nominated_by}</Text>
+              </View>
+            )}
+
             {/* Metadata row */}
             <View style={styles.metadataRow}>
               {releaseYear && (
@@ -315,6 +399,18 @@ export const MovieCard: React.FC<MovieCardProps> = ({
                   <Text style={styles.metadataText}>{movie.runtime}m</Text>
                 </View>
               )}
+              {seasonsLabel && (
+                <View style={styles.metadataItem}>
+                  <Ionicons name="albums-outline" size={14} color="#8E8E93" />
+                  <Text style={styles.metadataText}>{seasonsLabel}</Text>
+                </View>
+              )}
+              {movie.episode_runtime && (
+                <View style={styles.metadataItem}>
+                  <Ionicons name="time-outline" size={14} color="#8E8E93" />
+                  <Text style={styles.metadataText}>{movie.episode_runtime}m/ep</Text>
+                </View>
+              )}
             </View>
 
             {movie.overview && (
@@ -326,6 +422,32 @@ export const MovieCard: React.FC<MovieCardProps> = ({
         </View>
       </Animated.View>
 
+      {onRate && (
+        <View style={styles.starRow}>
+          {STAR_SCORES.map((score) => (
+            <TouchableOpacity
+              key={score}
+              style={styles.starButton}
+              onPress={() => onRate(movie, score)}
+              focusable={true}
+            >
+              <Text style={styles.starText}>★</Text>
+              <Text style={styles.starLabel}>{score}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {onVeto && vetoesRemaining > 0 && (
+        <TouchableOpacity
+          style={styles.vetoButton}
+          onPress={() => onVeto(movie)}
+          focusable={true}
+        >
+          <Text style={styles.vetoButtonText}>⛔ Veto ({vetoesRemaining} left)</Text>
+        </TouchableOpacity>
+      )}
+
       {/* Action Buttons - Now outside the card */}
       <View style={styles.actionButtonsContainer}>
         <TouchableOpacity
@@ -336,6 +458,16 @@ export const MovieCard: React.FC<MovieCardProps> = ({
           <Text style={styles.nopeButtonText}>✕ Nope</Text>
         </TouchableOpacity>
 
+        {onSuperLike && (
+          <TouchableOpacity
+            style={styles.superLikeButton}
+            onPress={() => onSuperLike(movie)}
+            focusable={true}
+          >
+            <Text style={styles.superLikeButtonText}>★ Super</Text>
+          </TouchableOpacity>
+        )}
+
         <TouchableOpacity
           style={styles.likeButton}
           onPress={() => onSwipeRight(movie)}
@@ -441,6 +573,17 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#8E8E93',
   },
+  nominatedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 8,
+  },
+  nominatedText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FF9500',
+  },
   overview: {
     fontSize: 13,
     color: '#B0B0B5',
@@ -483,6 +626,54 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#fff',
   },
+  superLikeButton: {
+    flex: 1,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#FFD60A',
+    paddingVertical: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255, 214, 10, 0.12)',
+  },
+  superLikeButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#FFD60A',
+  },
+  starRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    width: SCREEN_WIDTH * 0.88,
+    marginTop: 16,
+  },
+  starButton: {
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  starText: {
+    fontSize: 28,
+    color: '#FFD60A',
+  },
+  starLabel: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  vetoButton: {
+    width: SCREEN_WIDTH * 0.88,
+    marginTop: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  vetoButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#B0B0B5',
+  },
   overlay: {
     position: 'absolute',
     top: 50,
@@ -587,6 +778,18 @@ const tvStyles = StyleSheet.create({
     color: '#8E8E93',
     fontWeight: '500',
   },
+  nominatedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: -12,
+    marginBottom: 24,
+  },
+  nominatedText: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: '#FF9500',
+  },
   streamingSection: {
     marginTop: 24,
     marginBottom: 24,
@@ -688,6 +891,65 @@ const tvStyles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#fff',
   },
+  superLikeButton: {
+    flex: 1,
+    borderRadius: 20,
+    borderWidth: 4,
+    borderColor: '#FFD60A',
+    paddingVertical: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'transparent',
+  },
+  superLikeButtonFocused: {
+    backgroundColor: 'rgba(255, 214, 10, 0.15)',
+    transform: [{ scale: 1.05 }],
+  },
+  superLikeButtonText: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#FFD60A',
+  },
+  starRow: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 32,
+  },
+  starButton: {
+    flex: 1,
+    borderRadius: 16,
+    borderWidth: 3,
+    borderColor: 'rgba(255, 214, 10, 0.4)',
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  starButtonFocused: {
+    borderColor: '#FFD60A',
+    backgroundColor: 'rgba(255, 214, 10, 0.15)',
+    transform: [{ scale: 1.05 }],
+  },
+  starText: {
+    fontSize: 22,
+    color: '#FFD60A',
+  },
+  vetoButton: {
+    marginTop: 32,
+    borderRadius: 16,
+    borderWidth: 3,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  vetoButtonFocused: {
+    borderColor: '#fff',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    transform: [{ scale: 1.02 }],
+  },
+  vetoButtonText: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#B0B0B5',
+  },
 });
 
 export default MovieCard;
@@ -0,0 +1,36 @@
+/**
+ * useAnonymousAuth Hook
+ * Signs the device in anonymously so room actions are tied to a real Convex user
+ */
+
+import { useEffect, useState } from 'react';
+import { useConvexAuth } from 'convex/react';
+import { useAuthActions } from '@convex-dev/auth/react';
+import { AppError } from 'app/types/mobile';
+
+export const useAnonymousAuth = () => {
+  const { isLoading, isAuthenticated } = useConvexAuth();
+  const { signIn } = useAuthActions();
+  const [error, setError] = useState<AppError | null>(null);
+
+  useEffect(() => {
+    if (isLoading || isAuthenticated) return;
+
+    signIn('anonymous').catch((err: any) => {
+      console.error('Anonymous sign-in error:', err);
+      const appError: AppError = {
+        type: 'network_error',
+        message: err.message || 'Failed to connect',
+        retryable: true,
+      };
+      setError(appError);
+    });
+  }, [isLoading, isAuthenticated, signIn]);
+
+  return {
+    isReady: isAuthenticated,
+    error,
+  };
+};
+
+export default useAnonymousAuth;
@@ -0,0 +1,27 @@
+/**
+ * useCountdown Hook
+ * Whole seconds left until a timestamp, ticking once a second
+ */
+
+import { useEffect, useState } from 'react';
+
+export const useCountdown = (endsAt: number | null | undefined) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!endsAt) return;
+
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [endsAt]);
+
+  // Null when there is no timestamp to count down to
+  return endsAt ? Math.max(0, Math.ceil((endsAt - now) / 1000)) : null;
+};
+
+// Format seconds as m:ss
+export const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+export default useCountdown;
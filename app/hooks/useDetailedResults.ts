@@ -7,10 +7,14 @@ import { useMemo } from 'react';
 import { useQuery } from 'convex/react';
 import { api } from 'convex/_generated/api';
 import type { Id } from 'convex/_generated/dataModel';
+import { VotingMode } from 'app/types/supabase';
 
 interface VoteDetail {
   participantId: string;
+  displayName: string;
   vote: boolean;
+  voteType: 'like' | 'dislike' | 'superlike';
+  score?: number;
 }
 
 export interface DetailedMovieResult {
@@ -24,21 +28,40 @@ export interface DetailedMovieResult {
     releaseDate: string;
     genreIds: number[];
     streamingPlatforms?: any;
+    mediaType?: 'movie' | 'tv';
+    runtime?: number;
+    numberOfSeasons?: number;
+    episodeRuntime?: number;
   };
   totalVotes: number;
   positiveVotes: number;
   negativeVotes: number;
+  superlikes: number;
   matchPercentage: number;
   votingDetails: VoteDetail[];
 }
 
+export interface VetoedMovie {
+  id: string;
+  title: string;
+  vetoCount: number;
+  vetoedBy: string[] | null; // Null in rooms with anonymous vetoes
+}
+
 export interface ParticipantStatus {
   participantId: string;
+  displayName: string;
   votingCompletedAt?: number;
+  isCounted: boolean; // False for participants who dropped off without finishing
 }
 
 interface UseDetailedResultsReturn {
   results: DetailedMovieResult[];
+  vetoedMovies: VetoedMovie[];
+  completionReason: string | null;
+  winningMovieId: string | null;
+  votingMode: VotingMode;
+  runoffSize: number | null;
   participants: ParticipantStatus[];
   isLoading: boolean;
   completedParticipants: number;
@@ -77,26 +100,45 @@ export const useDetailedResults = (roomId: string): UseDetailedResultsReturn =>
       totalVotes: result.totalVotes,
       positiveVotes: result.positiveVotes,
       negativeVotes: result.negativeVotes,
+      superlikes: result.superlikes,
       matchPercentage: result.matchPercentage,
       votingDetails: result.votingDetails.map((v: any) => ({
         participantId: v.participantId,
+        displayName: v.displayName,
         vote: v.vote,
+        voteType: v.voteType,
+        score: v.score,
       })),
     }));
   }, [data?.results]);
 
+  const vetoedMovies: VetoedMovie[] = useMemo(() => {
+    if (!data?.vetoedMovies) return [];
+
+    return data.vetoedMovies.map((veto) => ({
+      id: veto.movie?._id || '',
+      title: veto.movie?.title || 'Unknown',
+      vetoCount: veto.vetoCount,
+      vetoedBy: veto.vetoedBy,
+    }));
+  }, [data?.vetoedMovies]);
+
   const participants: ParticipantStatus[] = useMemo(() => {
     if (!data?.participants) return [];
 
     return data.participants.map((p) => ({
       participantId: p.participantId,
+      displayName: p.displayName,
       votingCompletedAt: p.votingCompletedAt,
+      isCounted: p.isCounted,
     }));
   }, [data?.participants]);
 
+  // Participants who dropped off without finishing aren't waited for
   const { completedParticipants, totalParticipants } = useMemo(() => {
-    const total = participants.length;
-    const completed = participants.filter((p) => p.votingCompletedAt !== undefined).length;
+    const counted = participants.filter((p) => p.isCounted);
+    const total = counted.length;
+    const completed = counted.filter((p) => p.votingCompletedAt !== undefined).length;
     return { completedParticipants: completed, totalParticipants: total };
   }, [participants]);
 
@@ -108,6 +150,11 @@ export const useDetailedResults = (roomId: string): UseDetailedResultsReturn =>
 
   return {
     results,
+    vetoedMovies,
+    completionReason: data?.completionReason ?? null,
+    winningMovieId: data?.winningMovieId ?? null,
+    votingMode: data?.votingMode ?? 'like_dislike',
+    runoffSize: data?.runoffSize ?? null,
     participants,
     isLoading,
     completedParticipants,
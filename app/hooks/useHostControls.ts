@@ -0,0 +1,104 @@
+/**
+ * useHostControls Hook
+ * Host-only room actions: remove participants, transfer host, choose who is waited for,
+ * lock and close voting
+ */
+
+import { useState, useCallback } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from 'convex/_generated/api';
+import type { Id } from 'convex/_generated/dataModel';
+import { AppError } from 'app/types/mobile';
+import { useMyParticipant } from 'app/hooks/useMyParticipant';
+
+export const useHostControls = (roomId: string) => {
+  const [error, setError] = useState<AppError | null>(null);
+  const { isHost } = useMyParticipant(roomId);
+
+  const room = useQuery(
+    api.rooms.getRoom,
+    roomId ? { roomId: roomId as Id<'rooms'> } : 'skip'
+  );
+
+  const removeParticipantMutation = useMutation(api.rooms.removeParticipant);
+  const transferHostMutation = useMutation(api.rooms.transferHost);
+  const setRoomLockedMutation = useMutation(api.rooms.setRoomLocked);
+  const closeVotingMutation = useMutation(api.rooms.closeVoting);
+  const setParticipantCountedMutation = useMutation(api.rooms.setParticipantCounted);
+
+  const runMutation = useCallback(async (action: () => Promise<unknown>, fallbackMessage: string) => {
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err: any) {
+      console.error('Host control error:', err);
+      const appError: AppError = {
+        type: 'validation_error',
+        message: err.message || fallbackMessage,
+        retryable: false,
+      };
+      setError(appError);
+      return false;
+    }
+  }, []);
+
+  const removeParticipant = useCallback((targetParticipantId: string) => {
+    return runMutation(
+      () => removeParticipantMutation({
+        roomId: roomId as Id<'rooms'>,
+        targetParticipantId,
+      }),
+      'Failed to remove participant'
+    );
+  }, [roomId, removeParticipantMutation, runMutation]);
+
+  const transferHost = useCallback((newHostId: string) => {
+    return runMutation(
+      () => transferHostMutation({ roomId: roomId as Id<'rooms'>, newHostId }),
+      'Failed to transfer host'
+    );
+  }, [roomId, transferHostMutation, runMutation]);
+
+  // null goes back to following the participant's presence
+  const setCounted = useCallback((targetParticipantId: string, counted: boolean | null) => {
+    return runMutation(
+      () => setParticipantCountedMutation({
+        roomId: roomId as Id<'rooms'>,
+        targetParticipantId,
+        counted,
+      }),
+      'Failed to update participant'
+    );
+  }, [roomId, setParticipantCountedMutation, runMutation]);
+
+  const setLocked = useCallback((locked: boolean) => {
+    return runMutation(
+      () => setRoomLockedMutation({ roomId: roomId as Id<'rooms'>, locked }),
+      'Failed to update room lock'
+    );
+  }, [roomId, setRoomLockedMutation, runMutation]);
+
+  const closeVoting = useCallback(() => {
+    return runMutation(
+      () => closeVotingMutation({ roomId: roomId as Id<'rooms'> }),
+      'Failed to close voting'
+    );
+  }, [roomId, closeVotingMutation, runMutation]);
+
+  return {
+    hostId: room?.hostId ?? null,
+    isHost,
+    isLocked: room?.isLocked ?? false,
+    isVotingOpen: room?.status === 'voting' || room?.status === 'active',
+    error,
+    removeParticipant,
+    transferHost,
+    setCounted,
+    setLocked,
+    closeVoting,
+    clearError: () => setError(null),
+  };
+};
+
+export default useHostControls;
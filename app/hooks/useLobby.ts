@@ -0,0 +1,63 @@
+/**
+ * useLobby Hook
+ * Pre-voting lobby: ready-check state and the host's start-voting action
+ */
+
+import { useState, useCallback } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from 'convex/_generated/api';
+import type { Id } from 'convex/_generated/dataModel';
+import { AppError } from 'app/types/mobile';
+
+export const useLobby = (roomId: string) => {
+  const [error, setError] = useState<AppError | null>(null);
+
+  const lobby = useQuery(
+    api.rooms.getLobby,
+    roomId ? { roomId: roomId as Id<'rooms'> } : 'skip'
+  );
+
+  const setReadyMutation = useMutation(api.rooms.setReady);
+  const startVotingMutation = useMutation(api.rooms.startVoting);
+
+  const runMutation = useCallback(async (action: () => Promise<unknown>, fallbackMessage: string) => {
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err: any) {
+      console.error('Lobby error:', err);
+      const appError: AppError = {
+        type: 'validation_error',
+        message: err.message || fallbackMessage,
+        retryable: false,
+      };
+      setError(appError);
+      return false;
+    }
+  }, []);
+
+  const setReady = useCallback((ready: boolean) => {
+    return runMutation(
+      () => setReadyMutation({ roomId: roomId as Id<'rooms'>, ready }),
+      'Failed to update ready status'
+    );
+  }, [roomId, setReadyMutation, runMutation]);
+
+  const startVoting = useCallback(() => {
+    return runMutation(
+      () => startVotingMutation({ roomId: roomId as Id<'rooms'> }),
+      'Failed to start voting'
+    );
+  }, [roomId, startVotingMutation, runMutation]);
+
+  return {
+    lobby: lobby ?? null,
+    isLoading: lobby === undefined,
+    error,
+    setReady,
+    startVoting,
+  };
+};
+
+export default useLobby;
@@ -0,0 +1,96 @@
+/**
+ * useMovieNights Hook
+ * Save a room's winner to the Movie Nights collection, and follow up afterwards
+ * to mark it watched and rate it
+ */
+
+import { useState, useCallback } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from 'convex/_generated/api';
+import type { Id } from 'convex/_generated/dataModel';
+import { AppError } from 'app/types/mobile';
+
+const toAppError = (err: any, fallbackMessage: string): AppError => ({
+  type: 'validation_error',
+  message: err.message || fallbackMessage,
+  retryable: false,
+});
+
+export const useSaveWinner = (roomId: string) => {
+  const [error, setError] = useState<AppError | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Null when there's no winner or the caller didn't vote in the room
+  const status = useQuery(
+    api.movieNights.getWinnerSaveStatus,
+    roomId ? { roomId: roomId as Id<'rooms'> } : 'skip'
+  );
+
+  const saveWinnerMutation = useMutation(api.movieNights.saveWinner);
+
+  const saveWinner = useCallback(async () => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await saveWinnerMutation({ roomId: roomId as Id<'rooms'> });
+      return true;
+    } catch (err: any) {
+      console.error('Save winner error:', err);
+      setError(toAppError(err, 'Failed to save the winner'));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [roomId, saveWinnerMutation]);
+
+  return {
+    canSave: !!status,
+    isSaved: status?.isSaved ?? false,
+    isSaving,
+    error,
+    saveWinner,
+  };
+};
+
+export const useMovieNightFollowUp = () => {
+  const [error, setError] = useState<AppError | null>(null);
+  // Titles put off with "Not yet" are asked about again next launch
+  const [dismissedIds, setDismissedIds] = useState<string[]>([]);
+
+  const followUps = useQuery(api.movieNights.getMovieNightFollowUps);
+
+  const markAsWatchedMutation = useMutation(api.titles.markAsWatched);
+  const rateTitleMutation = useMutation(api.titles.rateTitle);
+
+  const followUp = followUps?.find((item) => !dismissedIds.includes(item.savedTitleId)) ?? null;
+
+  // Marks the title watched, then rates it when a rating was picked
+  const markWatched = useCallback(async (savedTitleId: string, rating: number | null) => {
+    setError(null);
+    try {
+      const id = savedTitleId as Id<'savedTitles'>;
+      await markAsWatchedMutation({ savedTitleId: id, isWatched: true });
+      if (rating !== null) {
+        await rateTitleMutation({ savedTitleId: id, rating });
+      }
+      return true;
+    } catch (err: any) {
+      console.error('Movie night follow-up error:', err);
+      setError(toAppError(err, 'Failed to update the title'));
+      return false;
+    }
+  }, [markAsWatchedMutation, rateTitleMutation]);
+
+  const dismiss = useCallback((savedTitleId: string) => {
+    setDismissedIds((ids) => [...ids, savedTitleId]);
+  }, []);
+
+  return {
+    followUp,
+    error,
+    markWatched,
+    dismiss,
+  };
+};
+
+export default useSaveWinner;
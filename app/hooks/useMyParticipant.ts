@@ -0,0 +1,24 @@
+/**
+ * useMyParticipant Hook
+ * The signed-in user's participant record in a room (ID, display name, host flag)
+ */
+
+import { useQuery } from 'convex/react';
+import { api } from 'convex/_generated/api';
+import type { Id } from 'convex/_generated/dataModel';
+
+export const useMyParticipant = (roomId?: string) => {
+  const me = useQuery(
+    api.rooms.getMyParticipant,
+    roomId ? { roomId: roomId as Id<'rooms'> } : 'skip'
+  );
+
+  return {
+    participantId: me?.participantId ?? null,
+    displayName: me?.displayName ?? null,
+    isHost: me?.isHost ?? false,
+    isLoading: me === undefined,
+  };
+};
+
+export default useMyParticipant;
@@ -0,0 +1,139 @@
+/**
+ * useNominations Hook
+ * Lobby nominations: search TMDB and add your own picks to the room's deck
+ */
+
+import { useState, useCallback } from 'react';
+import { useQuery, useMutation, useAction } from 'convex/react';
+import { api } from 'convex/_generated/api';
+import type { Id } from 'convex/_generated/dataModel';
+import { AppError } from 'app/types/mobile';
+import { MediaType } from 'app/types/supabase';
+
+// Subset of a /search/multi result
+interface TMDBSearchResult {
+  id: number;
+  media_type: 'movie' | 'tv' | 'person';
+  title?: string; // Movies
+  name?: string; // TV
+  overview?: string;
+  poster_path?: string | null;
+  release_date?: string; // Movies
+  first_air_date?: string; // TV
+  genre_ids?: number[];
+  vote_average?: number;
+}
+
+export interface NominationCandidate {
+  tmdbId: number;
+  mediaType: MediaType;
+  title: string;
+  overview?: string;
+  posterPath?: string;
+  releaseDate?: string;
+  genreIds?: number[];
+  voteAverage?: number;
+}
+
+const MAX_SEARCH_RESULTS = 8;
+
+export const useNominations = (roomId: string) => {
+  const [error, setError] = useState<AppError | null>(null);
+  const [results, setResults] = useState<NominationCandidate[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isNominating, setIsNominating] = useState(false);
+
+  // Null when the room doesn't take nominations
+  const nominations = useQuery(
+    api.votingMovies.getNominations,
+    roomId ? { roomId: roomId as Id<'rooms'> } : 'skip'
+  );
+
+  const searchMultiAction = useAction(api.tmdb.searchMulti);
+  const nominateTitleAction = useAction(api.roomSetup.nominateTitle);
+  const withdrawNominationMutation = useMutation(api.votingMovies.withdrawNomination);
+
+  const runMutation = useCallback(async (action: () => Promise<unknown>, fallbackMessage: string) => {
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err: any) {
+      console.error('Nomination error:', err);
+      const appError: AppError = {
+        type: 'validation_error',
+        message: err.message || fallbackMessage,
+        retryable: false,
+      };
+      setError(appError);
+      return false;
+    }
+  }, []);
+
+  const mediaType = nominations?.mediaType;
+
+  const search = useCallback(async (query: string) => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    setIsSearching(true);
+    await runMutation(async () => {
+      const response = await searchMultiAction({ query });
+      const matches: TMDBSearchResult[] = response?.results ?? [];
+
+      // Search covers people and both media types; only titles this room votes on can be nominated
+      setResults(
+        matches
+          .filter((match) => match.media_type === (mediaType ?? 'movie'))
+          .slice(0, MAX_SEARCH_RESULTS)
+          .map((match) => ({
+            tmdbId: match.id,
+            mediaType: match.media_type as MediaType,
+            title: (match.media_type === 'tv' ? match.name : match.title) ?? '',
+            overview: match.overview || undefined,
+            posterPath: match.poster_path || undefined,
+            releaseDate: (match.media_type === 'tv' ? match.first_air_date : match.release_date) || undefined,
+            genreIds: match.genre_ids,
+            voteAverage: match.vote_average,
+          }))
+      );
+    }, 'Search failed');
+    setIsSearching(false);
+  }, [mediaType, searchMultiAction, runMutation]);
+
+  const nominate = useCallback(async (candidate: NominationCandidate) => {
+    setIsNominating(true);
+    const success = await runMutation(
+      () => nominateTitleAction({ roomId: roomId as Id<'rooms'>, ...candidate }),
+      'Failed to nominate'
+    );
+    setIsNominating(false);
+    return success;
+  }, [roomId, nominateTitleAction, runMutation]);
+
+  const withdraw = useCallback((movieId: string) => {
+    return runMutation(
+      () => withdrawNominationMutation({
+        roomId: roomId as Id<'rooms'>,
+        movieId: movieId as Id<'movies'>,
+      }),
+      'Failed to withdraw nomination'
+    );
+  }, [roomId, withdrawNominationMutation, runMutation]);
+
+  return {
+    nominations: nominations ?? null,
+    results,
+    isSearching,
+    isNominating,
+    error,
+    search,
+    nominate,
+    withdraw,
+    clearError: () => setError(null),
+  };
+};
+
+export default useNominations;
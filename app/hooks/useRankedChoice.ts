@@ -0,0 +1,78 @@
+/**
+ * useRankedChoice Hook
+ * Ranked-choice runoff finalists, ballots and instant-runoff result for a room
+ */
+
+import { useState, useCallback } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from 'convex/_generated/api';
+import type { Id } from 'convex/_generated/dataModel';
+import { AppError } from 'app/types/mobile';
+
+export const useRankedChoice = (roomId: string) => {
+  const [error, setError] = useState<AppError | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Null when the room has no runoff, or voting hasn't finished yet
+  const runoff = useQuery(
+    api.rankedChoice.getRunoffResults,
+    roomId ? { roomId: roomId as Id<'rooms'> } : 'skip'
+  );
+
+  const submitBallotMutation = useMutation(api.rankedChoice.submitBallot);
+  const closeRunoffMutation = useMutation(api.rankedChoice.closeRunoff);
+
+  const submitBallot = useCallback(async (rankings: string[]) => {
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      await submitBallotMutation({
+        roomId: roomId as Id<'rooms'>,
+        rankings: rankings as Id<'movies'>[],
+      });
+      return true;
+    } catch (err: any) {
+      console.error('Submit ballot error:', err);
+      const appError: AppError = {
+        type: 'validation_error',
+        message: err.message || 'Failed to submit ranking',
+        retryable: false,
+      };
+      setError(appError);
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [roomId, submitBallotMutation]);
+
+  // Host only: settle the runoff with the rankings cast so far
+  const closeRunoff = useCallback(async () => {
+    setError(null);
+    try {
+      await closeRunoffMutation({ roomId: roomId as Id<'rooms'> });
+      return true;
+    } catch (err: any) {
+      console.error('Close runoff error:', err);
+      const appError: AppError = {
+        type: 'validation_error',
+        message: err.message || 'Failed to close the runoff',
+        retryable: false,
+      };
+      setError(appError);
+      return false;
+    }
+  }, [roomId, closeRunoffMutation]);
+
+  return {
+    runoff: runoff ?? null,
+    isLoading: runoff === undefined,
+    isSubmitting,
+    error,
+    submitBallot,
+    closeRunoff,
+    clearError: () => setError(null),
+  };
+};
+
+export default useRankedChoice;
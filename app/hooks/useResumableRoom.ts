@@ -0,0 +1,30 @@
+/**
+ * useResumableRoom Hook
+ * Finds an active room the signed-in user can jump back into, preferring the
+ * room code saved on this device
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from 'convex/_generated/api';
+import { useAsyncStorage } from 'app/hooks/useAsyncStorage';
+
+export const useResumableRoom = () => {
+  const { getCurrentRoomCode } = useAsyncStorage();
+  const [savedCode, setSavedCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    getCurrentRoomCode().then(setSavedCode);
+  }, [getCurrentRoomCode]);
+
+  const resumableRoom = useQuery(api.rooms.getResumableRoom, {
+    preferredCode: savedCode ?? undefined,
+  });
+
+  return {
+    resumableRoom: resumableRoom ?? null,
+    isLoading: resumableRoom === undefined,
+  };
+};
+
+export default useResumableRoom;
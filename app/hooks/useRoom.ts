@@ -8,6 +8,7 @@ import { useQuery, useMutation } from 'convex/react';
 import { api } from 'convex/_generated/api';
 import type { Id } from 'convex/_generated/dataModel';
 import { AppError } from 'app/types/mobile';
+import { DeckSource, ExcludeWatched, MediaType, STREAMING_SERVICES, VotingMode, VotingPace } from 'app/types/supabase';
 
 interface CreateRoomInput {
   code: string;
@@ -18,6 +19,21 @@ interface CreateRoomInput {
   status: string;
   movie_count: number;
   min_score: number;
+  media_type: MediaType;
+  deck_source: DeckSource;
+  deck_collection_id: string | null;
+  voting_mode: VotingMode;
+  runoff_size: number | null;
+  vetoes_per_participant: number;
+  anonymous_vetoes: boolean;
+  end_on_unanimous_match: boolean;
+  voting_pace: VotingPace;
+  card_seconds: number | null;
+  voting_minutes: number | null;
+  nominations_per_participant: number;
+  nominations_only: boolean;
+  exclude_watched: ExcludeWatched | null;
+  exclude_disliked_rooms: number | null;
 }
 
 interface JoinRoomInput {
@@ -52,12 +68,36 @@ export const useRoom = (roomId?: Id<'rooms'>) => {
     setIsCreating(true);
 
     try {
-      // Convex createRoom only accepts category, hostId, and maxParticipants
-      // Other parameters like streaming preferences are not stored in the schema
+      // Convert streaming service keys (e.g. 'netflix') into TMDB provider IDs
+      const streamingProviderIds = STREAMING_SERVICES
+        .filter((service) => input.streaming_preferences.includes(service.id))
+        .map((service) => service.providerId);
+
       const result = await createRoomMutation({
         category: input.category,
-        hostId: input.host_id,
+        hostName: input.host_id,
         maxParticipants: 10, // Default value
+        streamingProviderIds: streamingProviderIds.length > 0 ? streamingProviderIds : undefined,
+        watchRegion: input.country_preference,
+        movieCount: input.movie_count,
+        minScore: input.min_score,
+        mediaType: input.media_type,
+        deckSource: input.deck_source,
+        deckCollectionId: input.deck_collection_id
+          ? (input.deck_collection_id as Id<'collections'>)
+          : undefined,
+        votingMode: input.voting_mode,
+        runoffSize: input.runoff_size ?? undefined,
+        vetoesPerParticipant: input.vetoes_per_participant || undefined,
+        anonymousVetoes: input.anonymous_vetoes,
+        endOnUnanimousMatch: input.end_on_unanimous_match,
+        votingPace: input.voting_pace,
+        cardSeconds: input.card_seconds ?? undefined,
+        votingMinutes: input.voting_minutes ?? undefined,
+        nominationsPerParticipant: input.nominations_per_participant || undefined,
+        nominationsOnly: input.nominations_per_participant ? input.nominations_only : undefined,
+        excludeWatched: input.exclude_watched ?? undefined,
+        excludeDislikedRooms: input.exclude_disliked_rooms ?? undefined,
       });
 
       setIsCreating(false);
@@ -95,7 +135,7 @@ export const useRoom = (roomId?: Id<'rooms'>) => {
       // input.participant_id is the participant's name
       const result = await joinRoomByCodeMutation({
         roomCode: input.room_id,
-        participantId: input.participant_id,
+        displayName: input.participant_id,
       });
 
       return result;
@@ -116,17 +156,14 @@ export const useRoom = (roomId?: Id<'rooms'>) => {
     }
   }, [joinRoomByCodeMutation]);
 
-  // Leave room
-  const leaveRoom = useCallback(async (participantId: string) => {
+  // Leave room (as the signed-in user)
+  const leaveRoom = useCallback(async () => {
     if (!roomId) return false;
 
     setError(null);
 
     try {
-      await leaveRoomMutation({
-        roomId,
-        participantId,
-      });
+      await leaveRoomMutation({ roomId });
 
       return true;
     } catch (err: any) {
@@ -134,7 +171,7 @@ export const useRoom = (roomId?: Id<'rooms'>) => {
         type: 'network_error',
         message: err.message || 'Failed to leave room',
         retryable: true,
-        retryAction: async () => { await leaveRoom(participantId); },
+        retryAction: async () => { await leaveRoom(); },
       };
       setError(appError);
       return false;
@@ -47,7 +47,6 @@ export const useRoomPresence = ({ roomId, participantName }: UseRoomPresenceProp
         try {
           await heartbeatMutation({
             roomId,
-            userId: participantName,
             sessionId,
             interval: 10000, // 10 second timeout
           });
@@ -84,7 +83,6 @@ export const useRoomPresence = ({ roomId, participantName }: UseRoomPresenceProp
       if (nextAppState === 'active' && roomId && participantName) {
         heartbeatMutation({
           roomId,
-          userId: participantName,
           sessionId,
           interval: 10000,
         }).catch((error) => {
@@ -105,7 +103,6 @@ export const useRoomPresence = ({ roomId, participantName }: UseRoomPresenceProp
     try {
       await setTypingMutation({
         roomId,
-        participantId: participantName,
         isTyping: typing,
       });
     } catch (error) {
@@ -120,28 +117,24 @@ export const useRoomPresence = ({ roomId, participantName }: UseRoomPresenceProp
       typingTimeoutRef.current = setTimeout(() => {
         setTypingMutation({
           roomId,
-          participantId: participantName,
           isTyping: false,
         }).catch((error) => {
           console.error('Failed to clear typing status:', error);
         });
       }, 3000);
     }
-  }, [roomId, participantName, setTypingMutation]);
+  }, [roomId, setTypingMutation]);
 
   // Extract online participants from presence list
   const onlineParticipants = presenceList
     ? presenceList.map((user) => user.userId)
     : [];
 
-  // Filter out current participant from typing users
-  const filteredTypingUsers = typingUsers.filter((user) => user !== participantName);
-
   return {
     onlineParticipants,
     totalOnline: onlineParticipants.length,
     isOnline: (name: string) => onlineParticipants.includes(name),
-    typingUsers: filteredTypingUsers,
+    typingUsers, // Display names, already excluding the current user
     setTypingStatus,
   };
 };
@@ -0,0 +1,38 @@
+/**
+ * useRoomResults Hook
+ * Results frozen when a room completes
+ */
+
+import { useQuery } from 'convex/react';
+import { api } from 'convex/_generated/api';
+import type { Id } from 'convex/_generated/dataModel';
+
+export const useRoomResults = (roomId: string) => {
+  // Null while voting is still open
+  const snapshot = useQuery(
+    api.roomResults.getRoomResults,
+    roomId ? { roomId: roomId as Id<'rooms'> } : 'skip'
+  );
+
+  return {
+    snapshot: snapshot ?? null,
+    isFinal: !!snapshot,
+    isLoading: snapshot === undefined,
+  };
+};
+
+// Frozen results looked up by share token, for shared results links. Still
+// works after the room's votes have been purged.
+export const useSavedResults = (shareToken: string) => {
+  const snapshot = useQuery(
+    api.roomResults.getResultsByToken,
+    shareToken ? { shareToken } : 'skip'
+  );
+
+  return {
+    snapshot: snapshot ?? null,
+    isLoading: snapshot === undefined,
+  };
+};
+
+export default useRoomResults;
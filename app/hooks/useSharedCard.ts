@@ -0,0 +1,47 @@
+/**
+ * useSharedCard Hook
+ * Shared card and live tally for rooms using synchronized voting
+ */
+
+import { useState, useCallback } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from 'convex/_generated/api';
+import type { Id } from 'convex/_generated/dataModel';
+import { AppError } from 'app/types/mobile';
+
+export const useSharedCard = (roomId: string) => {
+  const [error, setError] = useState<AppError | null>(null);
+
+  // Null unless the room is synchronized and voting has started
+  const sharedCard = useQuery(
+    api.sharedCard.getSharedCard,
+    roomId ? { roomId: roomId as Id<'rooms'> } : 'skip'
+  );
+
+  const advanceSharedCardMutation = useMutation(api.sharedCard.advanceSharedCard);
+
+  const advance = useCallback(async (fromIndex: number) => {
+    setError(null);
+    try {
+      await advanceSharedCardMutation({ roomId: roomId as Id<'rooms'>, fromIndex });
+      return true;
+    } catch (err: any) {
+      console.error('Advance card error:', err);
+      const appError: AppError = {
+        type: 'validation_error',
+        message: err.message || 'Failed to move to the next card',
+        retryable: false,
+      };
+      setError(appError);
+      return false;
+    }
+  }, [roomId, advanceSharedCardMutation]);
+
+  return {
+    sharedCard: sharedCard ?? null,
+    error,
+    advance,
+  };
+};
+
+export default useSharedCard;
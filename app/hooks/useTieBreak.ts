@@ -0,0 +1,78 @@
+/**
+ * useTieBreak Hook
+ * Tie detection and the host-chosen tie-break flow for a room's results
+ */
+
+import { useState, useCallback } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from 'convex/_generated/api';
+import type { Id } from 'convex/_generated/dataModel';
+import { AppError } from 'app/types/mobile';
+
+export type TieBreakStrategy = 'revote' | 'rating' | 'runtime' | 'coin_flip';
+
+export const useTieBreak = (roomId: string) => {
+  const [error, setError] = useState<AppError | null>(null);
+
+  // Null when the top of the results isn't tied
+  const tie = useQuery(
+    api.tieBreaks.getTieBreak,
+    roomId ? { roomId: roomId as Id<'rooms'> } : 'skip'
+  );
+
+  const startTieBreakMutation = useMutation(api.tieBreaks.startTieBreak);
+  const submitTieBreakVoteMutation = useMutation(api.tieBreaks.submitTieBreakVote);
+  const closeTieBreakVoteMutation = useMutation(api.tieBreaks.closeTieBreakVote);
+
+  const runMutation = useCallback(async (action: () => Promise<unknown>, fallbackMessage: string) => {
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err: any) {
+      console.error('Tie-break error:', err);
+      const appError: AppError = {
+        type: 'validation_error',
+        message: err.message || fallbackMessage,
+        retryable: false,
+      };
+      setError(appError);
+      return false;
+    }
+  }, []);
+
+  const startTieBreak = useCallback((strategy: TieBreakStrategy) => {
+    return runMutation(
+      () => startTieBreakMutation({ roomId: roomId as Id<'rooms'>, strategy }),
+      'Failed to start tie-break'
+    );
+  }, [roomId, startTieBreakMutation, runMutation]);
+
+  const pickMovie = useCallback((movieId: string) => {
+    return runMutation(
+      () => submitTieBreakVoteMutation({
+        roomId: roomId as Id<'rooms'>,
+        movieId: movieId as Id<'movies'>,
+      }),
+      'Failed to submit pick'
+    );
+  }, [roomId, submitTieBreakVoteMutation, runMutation]);
+
+  const closeVote = useCallback(() => {
+    return runMutation(
+      () => closeTieBreakVoteMutation({ roomId: roomId as Id<'rooms'> }),
+      'Failed to close the vote'
+    );
+  }, [roomId, closeTieBreakVoteMutation, runMutation]);
+
+  return {
+    tie: tie ?? null,
+    error,
+    startTieBreak,
+    pickMovie,
+    closeVote,
+    clearError: () => setError(null),
+  };
+};
+
+export default useTieBreak;
@@ -22,17 +22,25 @@ interface Movie {
 
 interface SubmitVoteInput {
   room_id: string;
-  participant_id: string;
   movie_id: string;
-  vote_type: 'like' | 'dislike';
+  vote_type: 'like' | 'dislike' | 'superlike';
+  score?: number; // 1-5, star-rated rooms only
+  veto?: boolean; // Spend a veto (only with a dislike)
 }
 
-export const useVoting = (roomId: string, participantId: string, movies: Movie[] = []) => {
+// participantId is the signed-in user's ID (see useMyParticipant); votes are always cast as them
+export const useVoting = (roomId: string, participantId: string | null, movies: Movie[] = []) => {
   const [error, setError] = useState<AppError | null>(null);
 
   // Query votes for this room (auto-reactive!)
   const votes = useQuery(api.votes.getVotes, { roomId: roomId as Id<'rooms'> }) || [];
 
+  // Veto allowance for this participant
+  const vetoStatus = useQuery(
+    api.votes.getVetoStatus,
+    { roomId: roomId as Id<'rooms'> }
+  );
+
   // Filter my votes
   const myVotes = useMemo(() => {
     return votes.filter((vote) => vote.participantId === participantId);
@@ -48,9 +56,10 @@ export const useVoting = (roomId: string, participantId: string, movies: Movie[]
     try {
       const vote = await submitVoteMutation({
         roomId: roomId as Id<'rooms'>,
-        participantId: input.participant_id,
         movieId: input.movie_id as Id<'movies'>,
         voteType: input.vote_type,
+        score: input.score,
+        veto: input.veto,
       });
 
       return vote;
@@ -94,7 +103,7 @@ export const useVoting = (roomId: string, participantId: string, movies: Movie[]
   }, [myVotes]);
 
   // Get vote type for a movie
-  const getVoteType = useCallback((movieId: string): 'like' | 'dislike' | null => {
+  const getVoteType = useCallback((movieId: string): 'like' | 'dislike' | 'superlike' | null => {
     const vote = myVotes.find((v) => v.movieId === movieId);
     if (!vote) return null;
     return vote.voteType;
@@ -116,6 +125,8 @@ export const useVoting = (roomId: string, participantId: string, movies: Movie[]
     hasVoted,
     getVoteType,
     getVotingProgress,
+    vetoAllowance: vetoStatus?.allowance ?? 0,
+    vetoesRemaining: vetoStatus?.remaining ?? 0,
     fetchResults,
     refreshVotes: () => {}, // Not needed with Convex - auto-reactive
     clearError: () => setError(null),
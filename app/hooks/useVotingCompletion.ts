@@ -18,6 +18,7 @@ export interface VotingCompletionStatus {
   completedParticipantIds: string[];
   pendingParticipantIds: string[];
   participantIds: string[];
+  displayNames: Record<string, string>; // Participant ID -> name shown to others
 }
 
 export const useVotingCompletion = (roomId: string): VotingCompletionStatus => {
@@ -40,6 +41,7 @@ export const useVotingCompletion = (roomId: string): VotingCompletionStatus => {
         completedParticipantIds: [],
         pendingParticipantIds: [],
         participantIds: [],
+        displayNames: {},
       };
     }
 
@@ -60,6 +62,7 @@ export const useVotingCompletion = (roomId: string): VotingCompletionStatus => {
       completedParticipantIds: votingProgress.completedParticipantIds,
       pendingParticipantIds: votingProgress.pendingParticipantIds,
       participantIds: votingProgress.participantIds,
+      displayNames: votingProgress.displayNames,
     };
   }, [votingProgress]);
 
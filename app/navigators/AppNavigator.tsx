@@ -22,6 +22,7 @@ import JoinRoomScreen from "app/screens/JoinRoomScreen"
 import ShareRoomScreen from "app/screens/ShareRoomScreen"
 import RoomScreen from "app/screens/RoomScreen"
 import ResultsScreen from "app/screens/ResultsScreen"
+import SavedResultsScreen from "app/screens/SavedResultsScreen"
 import AboutScreen from "app/screens/AboutScreen"
 
 /**
@@ -41,7 +42,8 @@ const linking = {
       JoinRoom: 'join',
       ShareRoom: 'room/:roomCode/share',
       Room: 'room/:roomCode',
-      Results: 'results/:roomCode',
+      // Live results need a roomId, so shared links open the frozen snapshot
+      SavedResults: 'results/:shareToken',
     },
   },
 }
@@ -117,6 +119,14 @@ function AppStack() {
           title: 'Results',
         }}
       />
+
+      <Stack.Screen
+        name="SavedResults"
+        component={SavedResultsScreen}
+        options={{
+          title: 'Saved Results',
+        }}
+      />
     </Stack.Navigator>
   )
 }
@@ -28,6 +28,9 @@ export type AppStackParamList = {
     roomId: string
     roomCode: string
   }
+  SavedResults: {
+    shareToken: string
+  }
 }
 
 /**
@@ -49,3 +52,4 @@ export type JoinRoomScreenProps = AppStackScreenProps<"JoinRoom">
 export type ShareRoomScreenProps = AppStackScreenProps<"ShareRoom">
 export type RoomScreenProps = AppStackScreenProps<"Room">
 export type ResultsScreenProps = AppStackScreenProps<"Results">
+export type SavedResultsScreenProps = AppStackScreenProps<"SavedResults">
@@ -23,22 +23,44 @@ const TVFocusGuideView = Platform.isTV
   : View;
 
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useQuery } from 'convex/react';
+import { api } from 'convex/_generated/api';
 import { CreateRoomScreenProps } from 'app/types/navigation';
 import { Button } from 'app/components/ui/Button';
 import { Input } from 'app/components/ui/Input';
 import { useRoom } from 'app/hooks/useRoom';
+import { useAnonymousAuth } from 'app/hooks/useAnonymousAuth';
 import { useAsyncStorage } from 'app/hooks/useAsyncStorage';
 import { spacing } from 'app/theme';
 import {
   STREAMING_SERVICES,
   COUNTRIES,
   MOVIE_CATEGORIES,
+  TV_CATEGORIES,
+  MEDIA_TYPE_OPTIONS,
+  DECK_SOURCE_OPTIONS,
+  VOTING_MODE_OPTIONS,
+  RUNOFF_SIZE_OPTIONS,
+  VETO_OPTIONS,
+  VOTING_PACE_OPTIONS,
+  CARD_TIMER_OPTIONS,
+  VOTING_TIME_LIMIT_OPTIONS,
+  NOMINATION_OPTIONS,
+  EXCLUDE_WATCHED_OPTIONS,
+  EXCLUDE_DISLIKED_OPTIONS,
+  LIST_DECK_SOURCES,
   MOVIE_COUNT_OPTIONS,
-  MIN_SCORE_OPTIONS
+  MIN_SCORE_OPTIONS,
+  MediaType,
+  DeckSource,
+  VotingMode,
+  VotingPace,
+  ExcludeWatched,
 } from 'app/types/supabase';
 
 const CreateRoomScreen: React.FC<CreateRoomScreenProps> = ({ navigation }) => {
   const { createRoom, isLoading } = useRoom();
+  const { isReady: isSignedIn } = useAnonymousAuth();
   const {
     getParticipantName,
     setParticipantName,
@@ -49,12 +71,27 @@ const CreateRoomScreen: React.FC<CreateRoomScreenProps> = ({ navigation }) => {
   } = useAsyncStorage();
 
   const [hostName, setHostName] = useState('');
+  const [mediaType, setMediaType] = useState<MediaType>('movie');
+  const [deckSource, setDeckSource] = useState<DeckSource>('tmdb_discover');
+  const [deckCollectionId, setDeckCollectionId] = useState<string | null>(null);
   const [category, setCategory] = useState('popular');
   const [streamingPrefs, setStreamingPrefs] = useState<string[]>([]);
   const [restrictToSubscriptions, setRestrictToSubscriptions] = useState(false);
   const [country, setCountry] = useState('GB');
   const [movieCount, setMovieCount] = useState(10);
   const [minScore, setMinScore] = useState(6);
+  const [votingMode, setVotingMode] = useState<VotingMode>('like_dislike');
+  const [runoffSize, setRunoffSize] = useState<number | null>(null);
+  const [vetoesPerParticipant, setVetoesPerParticipant] = useState(0);
+  const [anonymousVetoes, setAnonymousVetoes] = useState(false);
+  const [endOnUnanimousMatch, setEndOnUnanimousMatch] = useState(false);
+  const [votingPace, setVotingPace] = useState<VotingPace>('independent');
+  const [cardSeconds, setCardSeconds] = useState<number | null>(null);
+  const [votingMinutes, setVotingMinutes] = useState<number | null>(null);
+  const [nominationsPerParticipant, setNominationsPerParticipant] = useState(0);
+  const [nominationsOnly, setNominationsOnly] = useState(false);
+  const [excludeWatched, setExcludeWatched] = useState<ExcludeWatched | null>(null);
+  const [excludeDislikedRooms, setExcludeDislikedRooms] = useState<number | null>(null);
   const [errors, setErrors] = useState<{ hostName?: string }>({});
 
   useEffect(() => {
@@ -72,6 +109,21 @@ const CreateRoomScreen: React.FC<CreateRoomScreenProps> = ({ navigation }) => {
     loadPreferences();
   }, []);
 
+  const categories = mediaType === 'tv' ? TV_CATEGORIES : MOVIE_CATEGORIES;
+  const isListDeck = LIST_DECK_SOURCES.includes(deckSource);
+
+  // The signed-in user's collections, offered as a deck source
+  const myCollections = useQuery(api.collections.listMyCollections);
+
+  const handleMediaTypeChange = (type: MediaType) => {
+    setMediaType(type);
+    // Not every movie category exists for TV (and vice versa)
+    const options: ReadonlyArray<{ value: string }> = type === 'tv' ? TV_CATEGORIES : MOVIE_CATEGORIES;
+    if (!options.some((option) => option.value === category)) {
+      setCategory('popular');
+    }
+  };
+
   const validateForm = (): boolean => {
     const newErrors: { hostName?: string } = {};
 
@@ -93,17 +145,30 @@ const CreateRoomScreen: React.FC<CreateRoomScreenProps> = ({ navigation }) => {
       await setParticipantName(hostName);
 
       // Create room (Convex automatically generates room code)
-      // Note: streaming_preferences, country_preference, movie_count, and min_score
-      // are not currently stored in the Convex schema
       const room = await createRoom({
         code: '', // Not used - Convex generates this automatically
         category,
         host_id: hostName,
         streaming_preferences: restrictToSubscriptions ? streamingPrefs : [],
         country_preference: country,
-        status: 'active',
+        status: 'lobby',
         movie_count: movieCount,
         min_score: minScore,
+        media_type: mediaType,
+        deck_source: deckSource,
+        deck_collection_id: deckSource === 'collection' ? deckCollectionId : null,
+        voting_mode: votingMode,
+        runoff_size: runoffSize,
+        vetoes_per_participant: vetoesPerParticipant,
+        anonymous_vetoes: anonymousVetoes,
+        end_on_unanimous_match: endOnUnanimousMatch,
+        voting_pace: votingPace,
+        card_seconds: cardSeconds,
+        voting_minutes: votingMinutes,
+        nominations_per_participant: nominationsPerParticipant,
+        nominations_only: nominationsOnly,
+        exclude_watched: excludeWatched,
+        exclude_disliked_rooms: excludeDislikedRooms,
       });
 
       if (room && room._id && room.code) {
@@ -145,21 +210,87 @@ const CreateRoomScreen: React.FC<CreateRoomScreenProps> = ({ navigation }) => {
         </TVFocusGuideView>
 
         <View style={[styles.section, IS_TV && styles.tvSection]}>
-          <Text style={[styles.sectionTitle, IS_TV && styles.tvSectionTitle]}>Movie Category</Text>
+          <Text style={[styles.sectionTitle, IS_TV && styles.tvSectionTitle]}>What are we watching?</Text>
           <View style={styles.categoryGrid}>
-            {MOVIE_CATEGORIES.map((cat) => (
+            {MEDIA_TYPE_OPTIONS.map((option) => (
               <Button
-                key={cat.value}
-                title={cat.label}
-                variant={category === cat.value ? 'primary' : 'outline'}
+                key={option.value}
+                title={option.label}
+                variant={mediaType === option.value ? 'primary' : 'outline'}
                 size="small"
-                onPress={() => setCategory(cat.value)}
+                onPress={() => handleMediaTypeChange(option.value)}
                 style={styles.categoryButton}
               />
             ))}
           </View>
         </View>
 
+        <View style={[styles.section, IS_TV && styles.tvSection]}>
+          <Text style={[styles.sectionTitle, IS_TV && styles.tvSectionTitle]}>Pick From</Text>
+          <View style={styles.categoryGrid}>
+            {DECK_SOURCE_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                title={option.label}
+                variant={deckSource === option.value ? 'primary' : 'outline'}
+                size="small"
+                onPress={() => setDeckSource(option.value)}
+                style={styles.categoryButton}
+              />
+            ))}
+          </View>
+          {deckSource === 'collection' && (
+            myCollections && myCollections.length > 0 ? (
+              <View style={[styles.categoryGrid, styles.subOptionGrid]}>
+                {myCollections.map((collection) => (
+                  <Button
+                    key={collection._id}
+                    title={collection.name}
+                    variant={deckCollectionId === collection._id ? 'primary' : 'outline'}
+                    size="small"
+                    onPress={() => setDeckCollectionId(collection._id)}
+                    style={styles.categoryButton}
+                  />
+                ))}
+              </View>
+            ) : (
+              <Text style={[styles.sectionHint, IS_TV && styles.tvSectionHint]}>
+                You don't have any collections yet
+              </Text>
+            )
+          )}
+          {deckSource === 'watchlists_any' && (
+            <Text style={[styles.sectionHint, IS_TV && styles.tvSectionHint]}>
+              Anything unwatched on someone's watchlist, built when you start voting
+            </Text>
+          )}
+          {deckSource === 'watchlists_all' && (
+            <Text style={[styles.sectionHint, IS_TV && styles.tvSectionHint]}>
+              Only what's unwatched on everyone's watchlist, built when you start voting
+            </Text>
+          )}
+        </View>
+
+        {!isListDeck && (
+          <View style={[styles.section, IS_TV && styles.tvSection]}>
+            <Text style={[styles.sectionTitle, IS_TV && styles.tvSectionTitle]}>
+              {mediaType === 'tv' ? 'TV Category' : 'Movie Category'}
+            </Text>
+            <View style={styles.categoryGrid}>
+              {categories.map((cat) => (
+                <Button
+                  key={cat.value}
+                  title={cat.label}
+                  variant={category === cat.value ? 'primary' : 'outline'}
+                  size="small"
+                  onPress={() => setCategory(cat.value)}
+                  style={styles.categoryButton}
+                />
+              ))}
+            </View>
+          </View>
+        )}
+
         <View style={[styles.section, IS_TV && styles.tvSection]}>
           <View style={[styles.checkboxContainer, IS_TV && styles.tvCheckboxContainer]}>
             {IS_TV ? (
@@ -232,12 +363,14 @@ const CreateRoomScreen: React.FC<CreateRoomScreenProps> = ({ navigation }) => {
         </View>
 
         <View style={[styles.section, IS_TV && styles.tvSection]}>
-          <Text style={[styles.sectionTitle, IS_TV && styles.tvSectionTitle]}>Number of Movies</Text>
+          <Text style={[styles.sectionTitle, IS_TV && styles.tvSectionTitle]}>
+            {mediaType === 'tv' ? 'Number of Shows' : 'Number of Movies'}
+          </Text>
           <View style={styles.categoryGrid}>
             {MOVIE_COUNT_OPTIONS.map((count) => (
               <Button
                 key={count}
-                title={`${count} movies`}
+                title={`${count} ${mediaType === 'tv' ? 'shows' : 'movies'}`}
                 variant={movieCount === count ? 'primary' : 'outline'}
                 size="small"
                 onPress={() => setMovieCount(count)}
@@ -263,14 +396,261 @@ const CreateRoomScreen: React.FC<CreateRoomScreenProps> = ({ navigation }) => {
           </View>
         </View>
 
+        <View style={[styles.section, IS_TV && styles.tvSection]}>
+          <Text style={[styles.sectionTitle, IS_TV && styles.tvSectionTitle]}>How Do We Vote?</Text>
+          <View style={styles.categoryGrid}>
+            {VOTING_MODE_OPTIONS.map((mode) => (
+              <Button
+                key={mode.value}
+                title={mode.label}
+                variant={votingMode === mode.value ? 'primary' : 'outline'}
+                size="small"
+                onPress={() => setVotingMode(mode.value)}
+                style={styles.categoryButton}
+              />
+            ))}
+          </View>
+          <Text style={[styles.sectionHint, IS_TV && styles.tvSectionHint]}>
+            {VOTING_MODE_OPTIONS.find((mode) => mode.value === votingMode)?.description}
+          </Text>
+        </View>
+
+        <View style={[styles.section, IS_TV && styles.tvSection]}>
+          <Text style={[styles.sectionTitle, IS_TV && styles.tvSectionTitle]}>Final Ranked Vote</Text>
+          <View style={styles.categoryGrid}>
+            {RUNOFF_SIZE_OPTIONS.map((option) => (
+              <Button
+                key={option.label}
+                title={option.label}
+                variant={runoffSize === option.value ? 'primary' : 'outline'}
+                size="small"
+                onPress={() => setRunoffSize(option.value)}
+                style={styles.categoryButton}
+              />
+            ))}
+          </View>
+          <Text style={[styles.sectionHint, IS_TV && styles.tvSectionHint]}>
+            {runoffSize
+              ? `The top ${runoffSize} go to a ranked-choice runoff`
+              : 'The highest scoring title wins outright'}
+          </Text>
+        </View>
+
+        <View style={[styles.section, IS_TV && styles.tvSection]}>
+          <Text style={[styles.sectionTitle, IS_TV && styles.tvSectionTitle]}>Vetoes Per Person</Text>
+          <View style={styles.categoryGrid}>
+            {VETO_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                title={option.label}
+                variant={vetoesPerParticipant === option.value ? 'primary' : 'outline'}
+                size="small"
+                onPress={() => setVetoesPerParticipant(option.value)}
+                style={styles.categoryButton}
+              />
+            ))}
+          </View>
+          {vetoesPerParticipant > 0 && (
+            <>
+              <Text style={[styles.sectionHint, IS_TV && styles.tvSectionHint]}>
+                A vetoed title is knocked out for everyone
+              </Text>
+              <View style={[styles.categoryGrid, styles.subOptionGrid]}>
+                <Button
+                  title="Show who vetoed"
+                  variant={!anonymousVetoes ? 'primary' : 'outline'}
+                  size="small"
+                  onPress={() => setAnonymousVetoes(false)}
+                  style={styles.categoryButton}
+                />
+                <Button
+                  title="Anonymous vetoes"
+                  variant={anonymousVetoes ? 'primary' : 'outline'}
+                  size="small"
+                  onPress={() => setAnonymousVetoes(true)}
+                  style={styles.categoryButton}
+                />
+              </View>
+            </>
+          )}
+        </View>
+
+        <View style={[styles.section, IS_TV && styles.tvSection]}>
+          <Text style={[styles.sectionTitle, IS_TV && styles.tvSectionTitle]}>When Everyone Agrees</Text>
+          <View style={styles.categoryGrid}>
+            <Button
+              title="Finish the deck"
+              variant={!endOnUnanimousMatch ? 'primary' : 'outline'}
+              size="small"
+              onPress={() => setEndOnUnanimousMatch(false)}
+              style={styles.categoryButton}
+            />
+            <Button
+              title="Stop at first match"
+              variant={endOnUnanimousMatch ? 'primary' : 'outline'}
+              size="small"
+              onPress={() => setEndOnUnanimousMatch(true)}
+              style={styles.categoryButton}
+            />
+          </View>
+          {endOnUnanimousMatch && (
+            <Text style={[styles.sectionHint, IS_TV && styles.tvSectionHint]}>
+              Voting ends for everyone as soon as all participants like the same title
+            </Text>
+          )}
+        </View>
+
+        <View style={[styles.section, IS_TV && styles.tvSection]}>
+          <Text style={[styles.sectionTitle, IS_TV && styles.tvSectionTitle]}>Voting Pace</Text>
+          <View style={styles.categoryGrid}>
+            {VOTING_PACE_OPTIONS.map((pace) => (
+              <Button
+                key={pace.value}
+                title={pace.label}
+                variant={votingPace === pace.value ? 'primary' : 'outline'}
+                size="small"
+                onPress={() => setVotingPace(pace.value)}
+                style={styles.categoryButton}
+              />
+            ))}
+          </View>
+          <Text style={[styles.sectionHint, IS_TV && styles.tvSectionHint]}>
+            {VOTING_PACE_OPTIONS.find((pace) => pace.value === votingPace)?.description}
+          </Text>
+        </View>
+
+        <View style={[styles.section, IS_TV && styles.tvSection]}>
+          <Text style={[styles.sectionTitle, IS_TV && styles.tvSectionTitle]}>Time Limits</Text>
+          <View style={styles.categoryGrid}>
+            {CARD_TIMER_OPTIONS.map((option) => (
+              <Button
+                key={option.label}
+                title={option.label}
+                variant={cardSeconds === option.value ? 'primary' : 'outline'}
+                size="small"
+                onPress={() => setCardSeconds(option.value)}
+                style={styles.categoryButton}
+              />
+            ))}
+          </View>
+          <Text style={[styles.sectionHint, IS_TV && styles.tvSectionHint]}>
+            {cardSeconds
+              ? 'A card left unvoted when time runs out counts as an abstention'
+              : votingPace === 'synchronized'
+                ? 'The host moves everyone to the next card'
+                : 'No time limit per card'}
+          </Text>
+          <View style={[styles.categoryGrid, styles.subOptionGrid]}>
+            {VOTING_TIME_LIMIT_OPTIONS.map((option) => (
+              <Button
+                key={option.label}
+                title={option.label}
+                variant={votingMinutes === option.value ? 'primary' : 'outline'}
+                size="small"
+                onPress={() => setVotingMinutes(option.value)}
+                style={styles.categoryButton}
+              />
+            ))}
+          </View>
+          {votingMinutes !== null && (
+            <Text style={[styles.sectionHint, IS_TV && styles.tvSectionHint]}>
+              Voting closes for everyone {votingMinutes} minutes after the host starts it
+            </Text>
+          )}
+        </View>
+
+        <View style={[styles.section, IS_TV && styles.tvSection]}>
+          <Text style={[styles.sectionTitle, IS_TV && styles.tvSectionTitle]}>Nominations</Text>
+          <View style={styles.categoryGrid}>
+            {NOMINATION_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                title={option.label}
+                variant={nominationsPerParticipant === option.value ? 'primary' : 'outline'}
+                size="small"
+                onPress={() => setNominationsPerParticipant(option.value)}
+                style={styles.categoryButton}
+              />
+            ))}
+          </View>
+          {nominationsPerParticipant > 0 && (
+            <>
+              <Text style={[styles.sectionHint, IS_TV && styles.tvSectionHint]}>
+                Everyone can search for titles to add to the deck while waiting in the lobby
+              </Text>
+              <View style={[styles.categoryGrid, styles.subOptionGrid]}>
+                <Button
+                  title="Mix into the deck"
+                  variant={!nominationsOnly ? 'primary' : 'outline'}
+                  size="small"
+                  onPress={() => setNominationsOnly(false)}
+                  style={styles.categoryButton}
+                />
+                <Button
+                  title="Nominations only"
+                  variant={nominationsOnly ? 'primary' : 'outline'}
+                  size="small"
+                  onPress={() => setNominationsOnly(true)}
+                  style={styles.categoryButton}
+                />
+              </View>
+            </>
+          )}
+        </View>
+
+        <View style={[styles.section, IS_TV && styles.tvSection]}>
+          <Text style={[styles.sectionTitle, IS_TV && styles.tvSectionTitle]}>Skip Watched Titles</Text>
+          <View style={styles.categoryGrid}>
+            {EXCLUDE_WATCHED_OPTIONS.map((option) => (
+              <Button
+                key={option.label}
+                title={option.label}
+                variant={excludeWatched === option.value ? 'primary' : 'outline'}
+                size="small"
+                onPress={() => setExcludeWatched(option.value)}
+                style={styles.categoryButton}
+              />
+            ))}
+          </View>
+          <Text style={[styles.sectionHint, IS_TV && styles.tvSectionHint]}>
+            Uses the watched marks in signed-in participants' saved titles
+          </Text>
+        </View>
+
+        <View style={[styles.section, IS_TV && styles.tvSection]}>
+          <Text style={[styles.sectionTitle, IS_TV && styles.tvSectionTitle]}>Skip Rejected Titles</Text>
+          <View style={styles.categoryGrid}>
+            {EXCLUDE_DISLIKED_OPTIONS.map((option) => (
+              <Button
+                key={option.label}
+                title={option.label}
+                variant={excludeDislikedRooms === option.value ? 'primary' : 'outline'}
+                size="small"
+                onPress={() => setExcludeDislikedRooms(option.value)}
+                style={styles.categoryButton}
+              />
+            ))}
+          </View>
+          {excludeDislikedRooms !== null && (
+            <Text style={[styles.sectionHint, IS_TV && styles.tvSectionHint]}>
+              Leaves out anything this group voted down in its last {excludeDislikedRooms} rooms
+            </Text>
+          )}
+        </View>
+
         <Button
           title="Create Room"
           variant="primary"
           size="large"
           fullWidth
-          isLoading={isLoading}
+          isLoading={isLoading || !isSignedIn}
           onPress={handleCreateRoom}
-          disabled={!hostName.trim() || (restrictToSubscriptions && streamingPrefs.length === 0)}
+          disabled={
+            !isSignedIn ||
+            !hostName.trim() ||
+            (restrictToSubscriptions && streamingPrefs.length === 0) ||
+            (deckSource === 'collection' && !deckCollectionId)
+          }
           style={styles.createButton}
         />
       </ScrollView>
@@ -318,6 +698,15 @@ const styles = StyleSheet.create({
     fontSize: 28,
     marginBottom: 20,
   },
+  sectionHint: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 8,
+  },
+  tvSectionHint: {
+    fontSize: 22,
+    marginTop: 12,
+  },
   categoryGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -326,6 +715,9 @@ const styles = StyleSheet.create({
   categoryButton: {
     flexGrow: 0,
   },
+  subOptionGrid: {
+    marginTop: 12,
+  },
   serviceGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -20,11 +20,16 @@ import { HomeScreenProps } from 'app/types/navigation';
 import { FeatureCard } from 'app/components/ui/FeatureCard';
 import { TMDBAttribution } from 'app/components/ui/TMDBAttribution';
 import { useAsyncStorage } from 'app/hooks/useAsyncStorage';
+import { useResumableRoom } from 'app/hooks/useResumableRoom';
+import { useMovieNightFollowUp } from 'app/hooks/useMovieNights';
+import { MovieNightFollowUp } from 'app/components/MovieNightFollowUp';
 import { spacing } from 'app/theme';
 import logoImage from '../../assets/images/icon.png';
 
 const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
   const { getRecentRoomCodes } = useAsyncStorage();
+  const { resumableRoom } = useResumableRoom();
+  const { followUp, error: followUpError, markWatched, dismiss } = useMovieNightFollowUp();
   // With Convex, we're always connected (no need for connection status)
   const connectionStatus = 'connected';
 
@@ -41,6 +46,16 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     navigation.navigate('JoinRoom');
   };
 
+  const handleResumeRoom = () => {
+    if (!resumableRoom) return;
+
+    navigation.navigate('Room', {
+      roomId: resumableRoom.roomId,
+      roomCode: resumableRoom.code,
+      participantName: resumableRoom.displayName,
+    });
+  };
+
   const handleAbout = () => {
     navigation.navigate('About');
   };
@@ -104,8 +119,34 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
               </Text>
             </View>
 
+            {/* How did the last movie night go? */}
+            {followUp && (
+              <MovieNightFollowUp
+                key={followUp.savedTitleId}
+                title={followUp.title}
+                mediaType={followUp.mediaType}
+                posterPath={followUp.posterPath}
+                errorMessage={followUpError?.message}
+                onWatched={(rating) => markWatched(followUp.savedTitleId, rating)}
+                onNotYet={() => dismiss(followUp.savedTitleId)}
+              />
+            )}
+
             {/* Action buttons */}
             <View style={styles.buttonContainer}>
+              {resumableRoom && (
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.resumeButton]}
+                  onPress={handleResumeRoom}
+                  focusable={true}
+                >
+                  <View style={styles.actionButtonOutline}>
+                    <Ionicons name="play-circle" size={24} color="#34C759" />
+                    <Text style={styles.resumeButtonText}>Resume room {resumableRoom.code}</Text>
+                  </View>
+                </TouchableOpacity>
+              )}
+
               <TouchableOpacity
                 style={[styles.actionButton, styles.createButton]}
                 onPress={handleCreateRoom}
@@ -294,6 +335,16 @@ const styles = StyleSheet.create({
     paddingHorizontal: 24,
     gap: 12,
   },
+  resumeButton: {
+    borderWidth: 2,
+    borderColor: '#34C759',
+    backgroundColor: 'transparent',
+  },
+  resumeButtonText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#34C759',
+  },
   actionButtonOutlineText: {
     fontSize: 18,
     fontWeight: 'bold',
@@ -18,6 +18,7 @@ import { JoinRoomScreenProps } from 'app/types/navigation';
 import { Button } from 'app/components/ui/Button';
 import { Input } from 'app/components/ui/Input';
 import { useRoom } from 'app/hooks/useRoom';
+import { useAnonymousAuth } from 'app/hooks/useAnonymousAuth';
 import { useAsyncStorage } from 'app/hooks/useAsyncStorage';
 import { spacing } from 'app/theme';
 
@@ -28,6 +29,7 @@ const TVFocusGuideView = Platform.isTV
 
 const JoinRoomScreen: React.FC<JoinRoomScreenProps> = ({ navigation }) => {
   const { joinRoom, isLoading, error } = useRoom();
+  const { isReady: isSignedIn } = useAnonymousAuth();
   const {
     getParticipantName,
     setParticipantName,
@@ -160,8 +162,9 @@ const JoinRoomScreen: React.FC<JoinRoomScreenProps> = ({ navigation }) => {
                   variant="primary"
                   size="large"
                   fullWidth
-                  isLoading={isLoading}
+                  isLoading={isLoading || !isSignedIn}
                   onPress={handleJoinRoom}
+                  disabled={!isSignedIn}
                   style={styles.joinButton}
                 />
               </TVFocusGuideView>
@@ -24,20 +24,39 @@ import { Button } from 'app/components/ui/Button';
 import { Card } from 'app/components/ui/Card';
 import { TMDBAttribution } from 'app/components/ui/TMDBAttribution';
 import ParticipantsList from 'app/components/ParticipantsList';
+import RankedChoicePanel from 'app/components/RankedChoicePanel';
+import TieBreakPanel from 'app/components/TieBreakPanel';
 import {
   useDetailedResults,
   DetailedMovieResult,
   ParticipantStatus,
 } from 'app/hooks/useDetailedResults';
+import { useRankedChoice } from 'app/hooks/useRankedChoice';
+import { useTieBreak } from 'app/hooks/useTieBreak';
+import { useHostControls } from 'app/hooks/useHostControls';
+import { useRoomResults } from 'app/hooks/useRoomResults';
+import { useSaveWinner } from 'app/hooks/useMovieNights';
+import { deepLinkingService } from 'app/utils/deepLinking';
 import {
   getBestStreamingLink,
   getAppNotInstalledMessage,
 } from 'app/utils/streamingDeepLinks';
 
+const TIE_BREAK_LABELS: Record<string, string> = {
+  revote: 'a head-to-head re-vote',
+  rating: 'the best TMDB rating',
+  runtime: 'the shortest runtime',
+  coin_flip: 'a coin flip',
+};
+
 const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route }) => {
-  const { roomId, roomCode } = route.params;
+  const { roomId, roomCode, participantName } = route.params;
   const {
     results,
+    vetoedMovies,
+    completionReason,
+    winningMovieId,
+    votingMode,
     participants,
     isLoading,
     completedParticipants,
@@ -45,12 +64,86 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route }) => {
     completionPercentage,
     isAllComplete,
   } = useDetailedResults(roomId);
+  const {
+    runoff,
+    isSubmitting: isSubmittingBallot,
+    error: ballotError,
+    submitBallot,
+    closeRunoff,
+  } = useRankedChoice(roomId);
+  const {
+    tie,
+    error: tieBreakError,
+    startTieBreak,
+    pickMovie: pickTieBreakMovie,
+    closeVote: closeTieBreakVote,
+  } = useTieBreak(roomId);
+
+  const {
+    isHost,
+    isVotingOpen,
+    error: hostError,
+    closeVoting,
+  } = useHostControls(roomId);
+  const { snapshot } = useRoomResults(roomId);
+  const {
+    canSave: canSaveWinner,
+    isSaved: isWinnerSaved,
+    isSaving: isSavingWinner,
+    error: saveWinnerError,
+    saveWinner,
+  } = useSaveWinner(roomId);
 
   const [showParticipants, setShowParticipants] = useState(false);
   const [expandedResults, setExpandedResults] = useState<Record<string, boolean>>({});
 
-  const topResult = results[0];
-  const otherResults = results.slice(1);
+  const isUnanimousMatch = completionReason === 'unanimous_match';
+  const matchResult = isUnanimousMatch
+    ? results.find((result) => result.id === winningMovieId)
+    : undefined;
+
+  // A decided runoff overrides the first-round leader
+  const runoffWinner = runoff?.winnerId
+    ? results.find((result) => result.id === runoff.winnerId)
+    : undefined;
+  const resolvedTieBreak = tie?.tieBreak?.status === 'resolved' ? tie.tieBreak : null;
+  const tieBreakWinner = resolvedTieBreak
+    ? results.find((result) => result.id === resolvedTieBreak.winningMovieId)
+    : undefined;
+  const topResult = matchResult ?? runoffWinner ?? tieBreakWinner ?? results[0];
+  // A runoff already settles ties among its finalists
+  const showTieBreak = !!tie && !runoff && !matchResult;
+  const otherResults = results.filter((result) => result !== topResult);
+
+  const winnerExplanation = useMemo(() => {
+    if (!topResult) return null;
+
+    if (matchResult) {
+      return `Everyone liked "${topResult.movie.title}", so voting ended early.`;
+    }
+
+    if (runoffWinner && runoff) {
+      const roundCount = runoff.rounds.length;
+      return `The top ${runoff.finalists.length} went to a ranked-choice runoff. "${topResult.movie.title}" won on instant-runoff counting after ${roundCount} round${roundCount === 1 ? '' : 's'}.`;
+    }
+
+    const runoffNote = runoff ? ' The finalists now go to a ranked-choice runoff.' : '';
+    const deadlineNote = completionReason === 'deadline' ? ' Voting closed when the time limit ran out.' : '';
+    const tieNote = tieBreakWinner && resolvedTieBreak
+      ? ` It was tied, so the winner was picked by ${TIE_BREAK_LABELS[resolvedTieBreak.strategy]}${
+          resolvedTieBreak.usedCoinFlip && resolvedTieBreak.strategy !== 'coin_flip' ? ', then a coin flip' : ''
+        }.`
+      : '';
+
+    switch (votingMode) {
+      case 'superlike':
+        return `Likes count once and super likes count twice. "${topResult.movie.title}" scored highest.${deadlineNote}${runoffNote}${tieNote}`;
+      case 'stars':
+        return `Everyone rated each title from 1 to 5 stars. "${topResult.movie.title}" has the highest average rating.${deadlineNote}${runoffNote}${tieNote}`;
+      default:
+        return `"${topResult.movie.title}" has the highest share of likes.${deadlineNote}${runoffNote}${tieNote}`;
+    }
+  }, [topResult, matchResult, runoffWinner, runoff, tieBreakWinner, resolvedTieBreak, votingMode, completionReason]);
 
   const participantMeta = useMemo(() => {
     const meta = new Map<string, { name: string; isHost: boolean; isComplete: boolean }>();
@@ -58,7 +151,7 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route }) => {
     participants.forEach((participant: ParticipantStatus, index: number) => {
       const id = participant.participantId || `participant-${index}`;
       meta.set(id, {
-        name: participant.participantId?.trim() || `Participant ${index + 1}`,
+        name: participant.displayName?.trim() || `Participant ${index + 1}`,
         isHost: index === 0,
         isComplete: participant.votingCompletedAt !== null,
       });
@@ -77,14 +170,16 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route }) => {
   const handleShare = useCallback(async () => {
     if (!topResult) return;
 
-    const message = `We picked "${topResult.movie.title}" (${topResult.matchPercentage}% match) in room ${roomCode}! Join us at MovieZang to find your next movie!`;
+    // Once frozen, the results can be revisited from a link even after the room expires
+    const link = snapshot ? ` See how everyone voted: ${deepLinkingService.createResultsLink(snapshot.shareToken)}` : '';
+    const message = `We picked "${topResult.movie.title}" (${topResult.matchPercentage}% match) in room ${roomCode}! Join us at MovieZang to find your next movie!${link}`;
 
     try {
       await RNShare.share({ message });
     } catch (error) {
       console.error('Share failed:', error);
     }
-  }, [roomCode, topResult]);
+  }, [roomCode, topResult, snapshot]);
 
   const handleNewRoom = useCallback(() => {
     navigation.navigate('Home');
@@ -126,6 +221,27 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route }) => {
     }
   };
 
+  const getLengthLabel = (movie: DetailedMovieResult['movie']): string | null => {
+    if (movie.mediaType === 'tv') {
+      const parts: string[] = [];
+      if (movie.numberOfSeasons) {
+        parts.push(`${movie.numberOfSeasons} season${movie.numberOfSeasons === 1 ? '' : 's'}`);
+      }
+      if (movie.episodeRuntime) {
+        parts.push(`${movie.episodeRuntime}m/ep`);
+      }
+      return parts.length > 0 ? parts.join(' • ') : null;
+    }
+
+    return movie.runtime ? `${movie.runtime}m` : null;
+  };
+
+  const getVoteLabel = (vote: DetailedMovieResult['votingDetails'][number]): string => {
+    if (vote.score !== undefined) return `${vote.score}★`;
+    if (vote.voteType === 'superlike') return 'Super liked';
+    return vote.vote ? 'Liked' : 'Passed';
+  };
+
   const renderGenres = (genreIds: number[] | null) => {
     if (!genreIds || genreIds.length === 0) return null;
 
@@ -188,7 +304,7 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route }) => {
       <View style={styles.votingDetailsContainer}>
         {result.votingDetails.map((vote, index) => {
           const meta = participantMeta.get(vote.participantId) || {
-            name: vote.participantId,
+            name: vote.displayName,
             isHost: false,
             isComplete: false,
           };
@@ -209,7 +325,7 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route }) => {
                   vote.vote ? styles.votePillPositive : styles.votePillNegative,
                 ]}
               >
-                <Text style={styles.votePillText}>{vote.vote ? 'Liked' : 'Passed'}</Text>
+                <Text style={styles.votePillText}>{getVoteLabel(vote)}</Text>
               </View>
             </View>
           );
@@ -264,7 +380,11 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route }) => {
         <View style={styles.resultHeaderRow}>
           <View style={styles.resultTitleWrapper}>
             <Text style={styles.resultTitle}>{result.movie.title}</Text>
-            <Text style={styles.resultYear}>{getYear(result.movie.releaseDate)}</Text>
+            <Text style={styles.resultYear}>
+              {[getYear(result.movie.releaseDate), getLengthLabel(result.movie)]
+                .filter(Boolean)
+                .join(' • ')}
+            </Text>
           </View>
           <View style={styles.matchBadge}>
             <Text style={styles.matchBadgeText}>{result.matchPercentage}% match</Text>
@@ -282,6 +402,9 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route }) => {
 
         <View style={styles.statsRow}>
           <Text style={styles.statText}>👍 {result.positiveVotes}</Text>
+          {result.superlikes > 0 && (
+            <Text style={styles.statText}>⭐ {result.superlikes}</Text>
+          )}
           <Text style={styles.statText}>👎 {result.negativeVotes}</Text>
           <Text style={styles.statText}>• {result.totalVotes} votes</Text>
         </View>
@@ -321,9 +444,40 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route }) => {
 
   const renderResultItem = ({ item }: { item: DetailedMovieResult }) => renderResultCard(item, false);
 
+  const confirmFinishNow = () => {
+    Alert.alert(
+      'Finish Now',
+      'End voting for everyone with the votes cast so far?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Finish Now', style: 'destructive', onPress: () => closeVoting() },
+      ]
+    );
+  };
+
+  // Finished before everyone voted (host finish or deadline): the frozen counts tell the story
+  const finishedEarly = !!snapshot && snapshot.completedCount < snapshot.participantCount;
+
   const renderListHeader = () => (
     <View style={styles.headerContainer}>
-      {!isAllComplete && totalParticipants > 0 && (
+      {finishedEarly && !matchResult && (
+        <View style={styles.partialResultsBanner}>
+          <View style={styles.bannerHeader}>
+            <View style={styles.bannerTitleRow}>
+              <View style={styles.statusDot} />
+              <Text style={styles.bannerTitle}>Final Results</Text>
+            </View>
+            <Text style={styles.bannerCount}>
+              {snapshot.completedCount} of {snapshot.participantCount} finished
+            </Text>
+          </View>
+          <Text style={styles.bannerInfo}>
+            Voting ended early. Scores are based on the votes that were cast.
+          </Text>
+        </View>
+      )}
+
+      {!snapshot && !isAllComplete && !matchResult && totalParticipants > 0 && (
         <View style={styles.partialResultsBanner}>
           <View style={styles.bannerHeader}>
             <View style={styles.bannerTitleRow}>
@@ -345,6 +499,23 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route }) => {
           <Text style={styles.bannerInfo}>
             Results update automatically as more participants finish voting
           </Text>
+          {isHost && isVotingOpen && (
+            <Button
+              title="Finish Now"
+              variant="secondary"
+              size="small"
+              onPress={confirmFinishNow}
+              style={styles.finishNowButton}
+            />
+          )}
+          {hostError && <Text style={styles.bannerError}>{hostError.message}</Text>}
+        </View>
+      )}
+
+      {matchResult && (
+        <View style={styles.matchBanner}>
+          <Ionicons name="heart" size={20} color="#fff" />
+          <Text style={styles.matchBannerText}>It's a match!</Text>
         </View>
       )}
 
@@ -365,7 +536,9 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route }) => {
             <Ionicons name="trophy" size={40} color="#fff" />
           </View>
         </View>
-        <Text style={styles.title}>Movie Results</Text>
+        <Text style={styles.title}>
+          {topResult?.movie.mediaType === 'tv' ? 'Show Results' : 'Movie Results'}
+        </Text>
         <TouchableOpacity onPress={() => setShowParticipants(true)} focusable={true}>
           <Text style={styles.subtitle}>
             <Ionicons name="people" size={14} color="#8E8E93" /> {totalParticipants} participant{totalParticipants === 1 ? '' : 's'} voted
@@ -373,6 +546,49 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route }) => {
         </TouchableOpacity>
       </View>
 
+      {winnerExplanation && (
+        <View style={styles.explanationContainer}>
+          <Ionicons name="information-circle-outline" size={18} color="#8E8E93" />
+          <Text style={styles.explanationText}>{winnerExplanation}</Text>
+        </View>
+      )}
+
+      {showTieBreak && tie && (
+        <TieBreakPanel
+          tiedMovies={tie.tiedMovies}
+          status={tie.tieBreak?.status ?? null}
+          tallies={tie.tallies}
+          picksCast={tie.picksCast}
+          totalParticipants={totalParticipants}
+          myPick={tie.myPick}
+          isHost={tie.isHost}
+          canVote={!!participantName}
+          errorMessage={tieBreakError?.message}
+          onStart={startTieBreak}
+          onPick={pickTieBreakMovie}
+          onCloseVote={closeTieBreakVote}
+        />
+      )}
+
+      {/* Ranking opens once the first round's results are final */}
+      {runoff && snapshot && (
+        <RankedChoicePanel
+          finalists={runoff.finalists}
+          rounds={runoff.rounds}
+          winnerId={runoff.winnerId}
+          isClosed={runoff.isClosed}
+          ballotsCast={runoff.ballotsCast}
+          totalParticipants={runoff.totalParticipants}
+          myRankings={runoff.myRankings}
+          isHost={runoff.isHost}
+          canVote={!!participantName}
+          isSubmitting={isSubmittingBallot}
+          errorMessage={ballotError?.message}
+          onSubmit={submitBallot}
+          onClose={closeRunoff}
+        />
+      )}
+
       {topResult ? (
         <View>
           {renderResultCard(topResult, true)}
@@ -394,6 +610,35 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({ navigation, route }) => {
 
   const renderListFooter = () => (
     <View style={styles.footerContainer}>
+      {vetoedMovies.length > 0 && (
+        <View style={styles.vetoedContainer}>
+          <Text style={styles.vetoedTitle}>Vetoed</Text>
+          {vetoedMovies.map((veto) => (
+            <View key={veto.id} style={styles.vetoedRow}>
+              <Text style={styles.vetoedMovieTitle} numberOfLines={1}>⛔ {veto.title}</Text>
+              <Text style={styles.vetoedBy}>
+                {veto.vetoedBy
+                  ? `by ${veto.vetoedBy.join(', ')}`
+                  : veto.vetoCount > 1 ? `${veto.vetoCount} anonymous vetoes` : 'anonymous'}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+      {canSaveWinner && (
+        <View style={styles.saveWinnerContainer}>
+          <Button
+            title={isWinnerSaved ? 'Saved to Movie Nights' : 'Save to Movie Nights'}
+            variant="secondary"
+            size="medium"
+            fullWidth
+            onPress={saveWinner}
+            isLoading={isSavingWinner}
+            disabled={isWinnerSaved}
+          />
+          {saveWinnerError && <Text style={styles.bannerError}>{saveWinnerError.message}</Text>}
+        </View>
+      )}
       <View style={styles.actionsContainer}>
         {/* Hide Share button on Apple TV - no sharing apps available */}
         {!Platform.isTV && (
@@ -721,6 +966,64 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#fff',
   },
+  matchBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#ef4444',
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  matchBannerText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  vetoedContainer: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  vetoedTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 8,
+  },
+  vetoedRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  vetoedMovieTitle: {
+    flex: 1,
+    fontSize: 14,
+    color: '#B0B0B5',
+    marginRight: 12,
+  },
+  vetoedBy: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  explanationContainer: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  explanationText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#B0B0B5',
+    lineHeight: 20,
+  },
   allResultsTitle: {
     fontSize: 18,
     fontWeight: 'bold',
@@ -749,6 +1052,9 @@ const styles = StyleSheet.create({
     paddingBottom: 24,
     paddingTop: 8,
   },
+  saveWinnerContainer: {
+    marginBottom: 16,
+  },
   actionsContainer: {
     flexDirection: 'row',
   },
@@ -818,6 +1124,15 @@ const styles = StyleSheet.create({
     color: '#8E8E93',
     marginTop: 8,
   },
+  finishNowButton: {
+    marginTop: 12,
+    alignSelf: 'flex-start',
+  },
+  bannerError: {
+    fontSize: 12,
+    color: '#FF453A',
+    marginTop: 8,
+  },
   completeResultsBanner: {
     backgroundColor: 'rgba(52, 199, 89, 0.15)',
     borderRadius: 12,
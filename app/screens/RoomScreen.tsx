@@ -28,12 +28,21 @@ import { useVoting } from 'app/hooks/useVoting';
 import { useRoom } from 'app/hooks/useRoom';
 import { useVotingCompletion } from 'app/hooks/useVotingCompletion';
 import { useRoomPresence } from 'app/hooks/useRoomPresence';
+import { useMyParticipant } from 'app/hooks/useMyParticipant';
+import { useLobby } from 'app/hooks/useLobby';
+import { useNominations } from 'app/hooks/useNominations';
+import { useSharedCard } from 'app/hooks/useSharedCard';
+import { useCountdown, formatCountdown } from 'app/hooks/useCountdown';
 import { Movie } from 'app/types/supabase';
 import ParticipantsList from 'app/components/ParticipantsList';
 import { ImageOptimization } from 'app/utils/performance';
 import ReactionOverlay from 'app/components/ReactionOverlay';
 import { FloatingChatButton } from 'app/components/FloatingChatButton';
 import { ChatPanel } from 'app/components/ChatPanel';
+import MatchReveal from 'app/components/MatchReveal';
+import LobbyPanel from 'app/components/LobbyPanel';
+import NominationPanel from 'app/components/NominationPanel';
+import SharedCardTally from 'app/components/SharedCardTally';
 import { spacing } from 'app/theme';
 
 // Mock movies - Fallback movies matching web app structure
@@ -70,9 +79,23 @@ const MOCK_MOVIES: Movie[] = [
 
 const RoomScreen: React.FC<RoomScreenProps> = ({ navigation, route }) => {
   const { roomId, roomCode, participantName } = route.params;
-  const { participants, leaveRoom } = useRoom(roomId as Id<'rooms'>);
+  const { room, participants, leaveRoom } = useRoom(roomId as Id<'rooms'>);
+  const { participantId: myParticipantId, isHost } = useMyParticipant(roomId);
+  const { lobby, error: lobbyError, setReady, startVoting } = useLobby(roomId);
+  const {
+    nominations,
+    results: nominationResults,
+    isSearching,
+    isNominating,
+    error: nominationError,
+    search: searchTitles,
+    nominate,
+    withdraw: withdrawNomination,
+  } = useNominations(roomId);
+  const { sharedCard, error: sharedCardError, advance } = useSharedCard(roomId);
   const votingCompletion = useVotingCompletion(roomId);
   const markVotingCompleteMutation = useMutation(api.votes.markVotingComplete);
+  const skipCardMutation = useMutation(api.votes.skipCard);
   const recordVoteReactionMutation = useMutation(api.voteReactions.recordVoteReaction);
   const insets = useSafeAreaInsets();
 
@@ -99,6 +122,13 @@ const RoomScreen: React.FC<RoomScreenProps> = ({ navigation, route }) => {
   const [hasMarkedComplete, setHasMarkedComplete] = useState(false);
   const [showParticipants, setShowParticipants] = useState(false);
   const [currentIndex, setCurrentIndex] = useState(0);
+  const [hasRestoredCursor, setHasRestoredCursor] = useState(false);
+
+  // Server-side cursor so a relaunch (or another device) opens at the first unvoted card
+  const votingCursor = useQuery(
+    api.votes.getVotingCursor,
+    roomId ? { roomId: roomId as Id<'rooms'> } : 'skip'
+  );
   const [showChat, setShowChat] = useState(false);
   const [unreadCount, setUnreadCount] = useState(0);
   const [lastMessageCount, setLastMessageCount] = useState(0);
@@ -124,11 +154,15 @@ const RoomScreen: React.FC<RoomScreenProps> = ({ navigation, route }) => {
       streaming_platforms: movie.streamingPlatforms || null,
       vote_average: movie.voteAverage || undefined,
       runtime: movie.runtime || undefined,
+      media_type: movie.mediaType || 'movie',
+      number_of_seasons: movie.numberOfSeasons || undefined,
+      episode_runtime: movie.episodeRuntime || undefined,
+      nominated_by: movie.nominatedBy,
     })) || [];
 
   console.log(`RoomScreen: Loaded ${movies.length} movies for room ${roomId}`);
 
-  const { submitVote, myVotes, getVotingProgress } = useVoting(roomId, participantName, movies);
+  const { submitVote, myVotes, getVotingProgress, vetoesRemaining } = useVoting(roomId, myParticipantId, movies);
 
   // Use room presence for online status and typing indicators
   const { typingUsers, setTypingStatus } = useRoomPresence({
@@ -149,9 +183,10 @@ const RoomScreen: React.FC<RoomScreenProps> = ({ navigation, route }) => {
 
   const votingStats = votingCompletion;
 
-  const participantNames = votingStats.participantIds;
-  const completedNameList = votingStats.completedParticipantIds;
-  const pendingDisplayNames = votingStats.pendingParticipantIds;
+  const nameOf = (id: string) => votingStats.displayNames[id] ?? id;
+  const participantNames = votingStats.participantIds.map(nameOf);
+  const completedNameList = votingStats.completedParticipantIds.map(nameOf);
+  const pendingDisplayNames = votingStats.pendingParticipantIds.map(nameOf);
 
   const participantCount = votingStats.totalParticipants;
   const completedCount = votingStats.completedParticipants;
@@ -161,6 +196,50 @@ const RoomScreen: React.FC<RoomScreenProps> = ({ navigation, route }) => {
 
   const participantsForList = votingStats.participantIds;
 
+  // Set when a unanimous match ended the room for everyone
+  const matchedMovie =
+    room?.status === 'completed' && room.completionReason === 'unanimous_match'
+      ? movies.find((movie) => movie.id === room.winningMovieId)
+      : undefined;
+
+  // Everyone votes on the same card at the same time
+  const isSynchronized = room?.votingPace === 'synchronized';
+
+  // Jump to the first unvoted card once, when the cursor first loads
+  useEffect(() => {
+    if (hasRestoredCursor || !votingCursor || isLoadingMovies || !room || isSynchronized) return;
+
+    setCurrentIndex(Math.min(votingCursor.nextIndex, movies.length));
+    setHasRestoredCursor(true);
+  }, [votingCursor, isLoadingMovies, hasRestoredCursor, movies.length, room, isSynchronized]);
+
+  // Per-card time limit when swiping at your own pace (the shared card has its own timer)
+  const cardSeconds = isSynchronized || room?.status !== 'voting' ? undefined : room.cardSeconds;
+  const [cardEndsAt, setCardEndsAt] = useState<number | null>(null);
+  const cardSecondsLeft = useCountdown(isSynchronized ? sharedCard?.endsAt : cardEndsAt);
+  const deadlineSecondsLeft = useCountdown(
+    room?.status === 'voting' ? room.votingDeadlineAt : undefined
+  );
+
+  // Restart the card timer whenever a new card comes up
+  useEffect(() => {
+    setCardEndsAt(cardSeconds && currentMovie ? Date.now() + cardSeconds * 1000 : null);
+  }, [currentMovie?.id, cardSeconds]);
+
+  // Out of time: the card is skipped and counts as an abstention
+  useEffect(() => {
+    if (isSynchronized || cardSecondsLeft !== 0 || !currentMovie) return;
+
+    skipCard(currentMovie);
+  }, [cardSecondsLeft]);
+
+  // In synchronized rooms the card follows the room's shared card
+  useEffect(() => {
+    if (!sharedCard || isLoadingMovies) return;
+
+    setCurrentIndex(Math.min(sharedCard.index, movies.length));
+  }, [sharedCard?.index, isLoadingMovies, movies.length]);
+
   // Track unread messages
   useEffect(() => {
     if (messages) {
@@ -199,7 +278,6 @@ const RoomScreen: React.FC<RoomScreenProps> = ({ navigation, route }) => {
 
           await markVotingCompleteMutation({
             roomId: roomId as Id<'rooms'>,
-            participantName,
           });
 
           setHasMarkedComplete(true);
@@ -237,12 +315,20 @@ const RoomScreen: React.FC<RoomScreenProps> = ({ navigation, route }) => {
     prefetchNextImages();
   }, [currentIndex, movies]);
 
-  const handleSwipeLeft = async (movie: Movie) => {
+  const votingMode = room?.votingMode ?? 'like_dislike';
+
+  const castVote = async (
+    movie: Movie,
+    voteType: 'like' | 'dislike' | 'superlike',
+    score?: number,
+    veto?: boolean
+  ) => {
     await submitVote({
       room_id: roomId,
-      participant_id: participantName,
       movie_id: movie.id,
-      vote_type: 'dislike',
+      vote_type: voteType,
+      score,
+      veto,
     });
 
     // Record vote reaction for live display
@@ -250,13 +336,19 @@ const RoomScreen: React.FC<RoomScreenProps> = ({ navigation, route }) => {
       await recordVoteReactionMutation({
         roomId: roomId as Id<'rooms'>,
         movieId: movie.id as Id<'movies'>,
-        participantId: participantName,
-        reaction: 'dislike',
+        reaction: voteType === 'dislike' ? 'dislike' : 'like',
       });
     } catch (error) {
       console.log('Failed to record reaction:', error);
     }
 
+    // The shared card only moves when the host or the timer advances it
+    if (isSynchronized) return;
+
+    goToNextCard();
+  };
+
+  const goToNextCard = () => {
     if (currentIndex < movies.length - 1) {
       setCurrentIndex(currentIndex + 1);
     } else {
@@ -265,41 +357,72 @@ const RoomScreen: React.FC<RoomScreenProps> = ({ navigation, route }) => {
     }
   };
 
-  const handleSwipeRight = async (movie: Movie) => {
-    await submitVote({
-      room_id: roomId,
-      participant_id: participantName,
-      movie_id: movie.id,
-      vote_type: 'like',
-    });
+  const skipCard = async (movie: Movie) => {
+    setCardEndsAt(null);
 
-    // Record vote reaction for live display
     try {
-      await recordVoteReactionMutation({
+      await skipCardMutation({
         roomId: roomId as Id<'rooms'>,
         movieId: movie.id as Id<'movies'>,
-        participantId: participantName,
-        reaction: 'like',
       });
     } catch (error) {
-      console.log('Failed to record reaction:', error);
+      console.log('Failed to skip card:', error);
     }
 
-    if (currentIndex < movies.length - 1) {
-      setCurrentIndex(currentIndex + 1);
-    } else {
-      // Move to last index to trigger completion
-      setCurrentIndex(movies.length);
-    }
+    goToNextCard();
   };
 
+  // In star-rated rooms a swipe counts as the lowest or highest rating
+  const handleSwipeLeft = (movie: Movie) =>
+    castVote(movie, 'dislike', votingMode === 'stars' ? 1 : undefined);
+
+  const handleSwipeRight = (movie: Movie) =>
+    castVote(movie, 'like', votingMode === 'stars' ? 5 : undefined);
+
+  const handleSuperLike = (movie: Movie) => castVote(movie, 'superlike');
+
+  const handleRate = (movie: Movie, score: number) =>
+    castVote(movie, score >= 3 ? 'like' : 'dislike', score);
+
+  // A veto is recorded alongside a dislike so the card counts as voted
+  const handleVeto = (movie: Movie) => castVote(movie, 'dislike', undefined, true);
+
   const navigateToResults = () => {
     navigation.replace('Results', {
       roomId,
       roomCode,
+      participantName,
     });
   };
 
+  // The host closed voting, time ran out or everyone else finished: go straight to Results
+  useEffect(() => {
+    if (
+      room?.status === 'completed' &&
+      (room.completionReason === 'host_closed' ||
+        room.completionReason === 'deadline' ||
+        room.completionReason === 'all_complete')
+    ) {
+      navigateToResults();
+    }
+  }, [room?.status, room?.completionReason]);
+
+  // Removed by the host: drop back to Home
+  useEffect(() => {
+    if (myParticipantId && room?.removedParticipantIds?.includes(myParticipantId)) {
+      Alert.alert('Removed from Room', 'The host removed you from this room.');
+      navigation.navigate('Home');
+    }
+  }, [room?.removedParticipantIds, myParticipantId]);
+
+  // Give everyone a moment on the match reveal before moving to Results
+  useEffect(() => {
+    if (!matchedMovie) return;
+
+    const timer = setTimeout(navigateToResults, 5000);
+    return () => clearTimeout(timer);
+  }, [matchedMovie?.id]);
+
   const handleLeaveRoom = () => {
     Alert.alert(
       'Leave Room',
@@ -310,7 +433,7 @@ const RoomScreen: React.FC<RoomScreenProps> = ({ navigation, route }) => {
           text: 'Leave',
           style: 'destructive',
           onPress: async () => {
-            const success = await leaveRoom(participantName);
+            const success = await leaveRoom();
             if (success) {
               navigation.navigate('Home');
             }
@@ -332,6 +455,71 @@ const RoomScreen: React.FC<RoomScreenProps> = ({ navigation, route }) => {
     setUnreadCount(0);
   };
 
+  if (matchedMovie) {
+    return (
+      <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
+        <MatchReveal
+          title={matchedMovie.title}
+          posterPath={matchedMovie.poster_path}
+          onViewResults={navigateToResults}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  // Everyone waits in the lobby until the host starts voting
+  if (lobby?.status === 'lobby') {
+    const me = lobby.participants.find((p) => p.participantId === myParticipantId);
+
+    return (
+      <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
+        <LinearGradient
+          colors={['#0F0F23', '#1a1a2e', '#16213e']}
+          style={styles.gradient}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 1 }}
+        >
+          <LobbyPanel
+            roomCode={roomCode}
+            participants={lobby.participants}
+            readyCount={lobby.readyCount}
+            isDeckReady={lobby.isDeckReady}
+            nominationsOnly={lobby.nominationsOnly}
+            deckHint={
+              lobby.deckSource === 'watchlists_all'
+                ? 'The deck will be everything unwatched on all of your watchlists'
+                : lobby.deckSource === 'watchlists_any'
+                  ? "The deck will be everything unwatched on anyone's watchlist"
+                  : undefined
+            }
+            isReady={me?.isReady ?? false}
+            isHost={me?.isHost ?? false}
+            errorMessage={lobbyError?.message}
+            onToggleReady={() => setReady(!(me?.isReady ?? false))}
+            onStart={startVoting}
+            onLeave={handleLeaveRoom}
+          >
+            {nominations && (
+              <NominationPanel
+                limit={nominations.limit}
+                nominationsLeft={nominations.nominationsLeft}
+                nominations={nominations.nominations}
+                myParticipantId={myParticipantId}
+                results={nominationResults}
+                isSearching={isSearching}
+                isNominating={isNominating}
+                errorMessage={nominationError?.message}
+                onSearch={searchTitles}
+                onNominate={nominate}
+                onWithdraw={withdrawNomination}
+              />
+            )}
+          </LobbyPanel>
+        </LinearGradient>
+      </SafeAreaView>
+    );
+  }
+
   if (isLoadingMovies || (!currentMovie && !hasFinishedVoting)) {
     return (
       <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
@@ -372,6 +560,9 @@ const RoomScreen: React.FC<RoomScreenProps> = ({ navigation, route }) => {
               {votingCompletion.isAllComplete
                 ? 'All participants have finished voting!'
                 : 'Waiting for other participants to finish...'}
+              {deadlineSecondsLeft !== null && !votingCompletion.isAllComplete
+                ? ` Voting closes in ${formatCountdown(deadlineSecondsLeft)}.`
+                : ''}
             </Text>
 
             {/* Progress Banner */}
@@ -393,10 +584,10 @@ const RoomScreen: React.FC<RoomScreenProps> = ({ navigation, route }) => {
             </View>
 
             {/* Waiting For List */}
-            {votingCompletion.pendingParticipantIds.length > 0 && (
+            {pendingDisplayNames.length > 0 && (
               <View style={styles.waitingForContainer}>
                 <Text style={styles.waitingForTitle}>Waiting for:</Text>
-                {votingCompletion.pendingParticipantIds.map(name => (
+                {pendingDisplayNames.map(name => (
                   <View key={name} style={styles.waitingForParticipant}>
                     <Text style={styles.waitingForName}>{name}</Text>
                   </View>
@@ -436,7 +627,7 @@ const RoomScreen: React.FC<RoomScreenProps> = ({ navigation, route }) => {
                 isOpen={showChat}
                 onClose={handleChatClose}
                 roomId={roomId as Id<'rooms'>}
-                currentParticipant={participantName}
+                currentParticipant={myParticipantId ?? ''}
                 typingUsers={typingUsers}
                 onTyping={setTypingStatus}
                 onMessagesRead={handleMessagesRead}
@@ -477,6 +668,14 @@ const RoomScreen: React.FC<RoomScreenProps> = ({ navigation, route }) => {
             <Text style={styles.completionText}>
               {Math.round(progress.progressPercentage)}% complete
             </Text>
+            {(cardSecondsLeft !== null || deadlineSecondsLeft !== null) && (
+              <Text style={styles.timerText}>
+                {[
+                  cardSecondsLeft !== null ? `${cardSecondsLeft}s on this card` : null,
+                  deadlineSecondsLeft !== null ? `Voting ends in ${formatCountdown(deadlineSecondsLeft)}` : null,
+                ].filter(Boolean).join(' • ')}
+              </Text>
+            )}
           </View>
 
           <View style={styles.headerActions}>
@@ -506,16 +705,39 @@ const RoomScreen: React.FC<RoomScreenProps> = ({ navigation, route }) => {
 
         {/* Movie Cards */}
         <View style={styles.cardContainer}>
-          <MovieCard
-            key={currentMovie.id}
-            movie={currentMovie}
-            onSwipeLeft={handleSwipeLeft}
-            onSwipeRight={handleSwipeRight}
-            isTopCard={true}
-            cardHeight={maxCardHeight}
-          />
+          {!(isSynchronized && sharedCard?.hasVoted) && (
+            <MovieCard
+              key={currentMovie.id}
+              movie={currentMovie}
+              onSwipeLeft={handleSwipeLeft}
+              onSwipeRight={handleSwipeRight}
+              onSuperLike={votingMode === 'superlike' ? handleSuperLike : undefined}
+              onRate={votingMode === 'stars' ? handleRate : undefined}
+              onVeto={handleVeto}
+              vetoesRemaining={vetoesRemaining}
+              isTopCard={true}
+              cardHeight={maxCardHeight}
+            />
+          )}
         </View>
 
+        {/* Live tally for the shared card (synchronized voting) */}
+        {isSynchronized && sharedCard?.movieId && (sharedCard.hasVoted || isHost) && (
+          <SharedCardTally
+            movieTitle={currentMovie.title}
+            likes={sharedCard.likes}
+            dislikes={sharedCard.dislikes}
+            votedCount={sharedCard.votedCount}
+            totalParticipants={sharedCard.totalParticipants}
+            endsAt={sharedCard.endsAt}
+            hasVoted={sharedCard.hasVoted}
+            isHost={isHost}
+            isLastCard={sharedCard.index >= sharedCard.totalCards - 1}
+            errorMessage={sharedCardError?.message}
+            onNext={() => advance(sharedCard.index)}
+          />
+        )}
+
         {/* Participants List Modal */}
         <ParticipantsList
           roomId={roomId}
@@ -527,7 +749,7 @@ const RoomScreen: React.FC<RoomScreenProps> = ({ navigation, route }) => {
         {/* Live Vote Reactions Overlay */}
         <ReactionOverlay
           reactions={recentReactions || []}
-          currentParticipant={participantName}
+          currentParticipant={myParticipantId ?? ''}
         />
 
         {/* Floating Chat Button - Hide on TV */}
@@ -543,7 +765,7 @@ const RoomScreen: React.FC<RoomScreenProps> = ({ navigation, route }) => {
               isOpen={showChat}
               onClose={handleChatClose}
               roomId={roomId as Id<'rooms'>}
-              currentParticipant={participantName}
+              currentParticipant={myParticipantId ?? ''}
               typingUsers={typingUsers}
               onTyping={setTypingStatus}
               onMessagesRead={handleMessagesRead}
@@ -608,6 +830,12 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#fff',
   },
+  timerText: {
+    fontSize: IS_TV ? 20 : 11,
+    fontWeight: '600',
+    color: '#FF9500',
+    marginTop: IS_TV ? 6 : 2,
+  },
   viewResultsHeaderButton: {
     paddingHorizontal: IS_TV ? 24 : 12,
     paddingVertical: IS_TV ? 12 : 6,
@@ -0,0 +1,369 @@
+/**
+ * SavedResultsScreen Component
+ * Read-only view of the results frozen when a room completed, opened from a shared link
+ */
+
+import React, { useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Image,
+  ActivityIndicator,
+  Share as RNShare,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { SavedResultsScreenProps } from 'app/types/navigation';
+import { Button } from 'app/components/ui/Button';
+import { Card } from 'app/components/ui/Card';
+import { TMDBAttribution } from 'app/components/ui/TMDBAttribution';
+import { useSavedResults } from 'app/hooks/useRoomResults';
+import { deepLinkingService } from 'app/utils/deepLinking';
+
+const IS_TV = Platform.isTV;
+
+const COMPLETION_LABELS: Record<string, string> = {
+  unanimous_match: 'Everyone liked the winner, so voting ended early.',
+  all_complete: 'Everyone finished voting.',
+  everyone_left: 'Voting ended when everyone left the room.',
+  host_closed: 'The host finished voting early.',
+  deadline: 'Voting closed when the time limit ran out.',
+};
+
+const SavedResultsScreen: React.FC<SavedResultsScreenProps> = ({ navigation, route }) => {
+  const { shareToken } = route.params;
+  const { snapshot, isLoading } = useSavedResults(shareToken);
+
+  // A runoff or tie-break settled after voting overrides the first-round winner
+  const winner = useMemo(() => {
+    const winnerId = snapshot?.finalWinnerId ?? snapshot?.winningMovieId;
+    return snapshot?.standings.find((standing) => standing.movieId === winnerId);
+  }, [snapshot]);
+  const otherStandings = useMemo(
+    () => snapshot?.standings.filter((standing) => standing !== winner) ?? [],
+    [snapshot, winner]
+  );
+
+  const decidedOn = snapshot
+    ? new Date(snapshot.createdAt).toLocaleDateString(undefined, {
+        weekday: 'long',
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+      })
+    : '';
+
+  const handleShare = useCallback(async () => {
+    if (!winner) return;
+
+    const url = deepLinkingService.createResultsLink(shareToken);
+    const message = `We picked "${winner.title}" (${winner.matchPercentage}% match) on MovieZang! See how everyone voted: ${url}`;
+
+    try {
+      await RNShare.share({ message });
+    } catch (error) {
+      console.error('Share failed:', error);
+    }
+  }, [shareToken, winner]);
+
+  const handleHome = useCallback(() => {
+    navigation.navigate('Home');
+  }, [navigation]);
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#ef4444" />
+          <Text style={styles.mutedText}>Loading results...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!snapshot) {
+    return (
+      <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
+        <View style={styles.centered}>
+          <Ionicons name="time-outline" size={64} color="#8E8E93" />
+          <Text style={styles.emptyTitle}>Results Not Found</Text>
+          <Text style={styles.mutedText}>
+            These results couldn't be found. Check that the link was copied in full.
+          </Text>
+          <Button
+            title="Go Home"
+            variant="primary"
+            size="medium"
+            onPress={handleHome}
+            style={styles.emptyButton}
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const renderStats = (standing: (typeof snapshot.standings)[number]) => (
+    <View style={styles.statsRow}>
+      <Text style={styles.statText}>👍 {standing.positiveVotes}</Text>
+      {standing.superlikes > 0 && <Text style={styles.statText}>⭐ {standing.superlikes}</Text>}
+      <Text style={styles.statText}>👎 {standing.negativeVotes}</Text>
+      <Text style={styles.statText}>• {standing.totalVotes} votes</Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.header}>
+          <Text style={styles.title}>
+            {snapshot.mediaType === 'tv' ? 'Show Night' : 'Movie Night'}
+          </Text>
+          <Text style={styles.subtitle}>
+            Room {snapshot.code} • {decidedOn}
+          </Text>
+          <Text style={styles.mutedText}>{COMPLETION_LABELS[snapshot.completionReason]}</Text>
+        </View>
+
+        {winner ? (
+          <Card variant="elevated" padding="large" style={styles.winnerCard}>
+            <View style={styles.winnerBadge}>
+              <Ionicons name="trophy" size={16} color="#121212" />
+              <Text style={styles.winnerBadgeText}>We picked</Text>
+            </View>
+            {winner.posterPath ? (
+              <Image
+                source={{ uri: `https://image.tmdb.org/t/p/w500${winner.posterPath}` }}
+                style={styles.poster}
+                resizeMode="cover"
+              />
+            ) : null}
+            <View style={styles.titleRow}>
+              <Text style={styles.winnerTitle}>{winner.title}</Text>
+              <Text style={styles.matchText}>{winner.matchPercentage}% match</Text>
+            </View>
+            {renderStats(winner)}
+          </Card>
+        ) : (
+          <Text style={styles.mutedText}>Nothing got enough votes to win.</Text>
+        )}
+
+        {otherStandings.length > 0 && <Text style={styles.sectionTitle}>Ranking</Text>}
+        {otherStandings.map((standing, index) => (
+          <View key={standing.movieId} style={styles.standingRow}>
+            <Text style={styles.rank}>{index + 2}</Text>
+            <View style={styles.standingInfo}>
+              <Text style={styles.standingTitle} numberOfLines={1}>
+                {standing.title}
+              </Text>
+              {renderStats(standing)}
+            </View>
+            <Text style={styles.matchText}>{standing.matchPercentage}%</Text>
+          </View>
+        ))}
+
+        <Text style={styles.sectionTitle}>Who Voted</Text>
+        <View style={styles.participantsRow}>
+          {snapshot.participants.map((participant) => (
+            <View key={participant.participantId} style={styles.participantPill}>
+              <Ionicons
+                name={participant.completedVoting ? 'checkmark-circle' : 'ellipse-outline'}
+                size={14}
+                color={participant.completedVoting ? '#34C759' : '#8E8E93'}
+              />
+              <Text style={styles.participantName}>{participant.displayName}</Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.actions}>
+          {/* Hide Share button on Apple TV - no sharing apps available */}
+          {!IS_TV && (
+            <Button
+              title="Share"
+              variant="outline"
+              size="medium"
+              onPress={handleShare}
+              style={styles.actionButton}
+              disabled={!winner}
+            />
+          )}
+          <Button
+            title="New Room"
+            variant="primary"
+            size="medium"
+            onPress={handleHome}
+            style={styles.actionButton}
+          />
+        </View>
+
+        <TMDBAttribution style={{ marginTop: 24 }} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 32,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    gap: 12,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 24,
+    gap: 4,
+  },
+  title: {
+    fontSize: IS_TV ? 44 : 32,
+    fontWeight: 'bold',
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: IS_TV ? 24 : 16,
+    color: '#fff',
+    textAlign: 'center',
+  },
+  mutedText: {
+    fontSize: IS_TV ? 20 : 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+  emptyTitle: {
+    fontSize: IS_TV ? 32 : 22,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  emptyButton: {
+    marginTop: 12,
+  },
+  winnerCard: {
+    marginBottom: 24,
+    borderWidth: 1,
+    borderColor: '#FFD70033',
+    backgroundColor: '#1C1C1E',
+  },
+  winnerBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#FFD700',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    marginBottom: 12,
+    alignSelf: 'flex-start',
+  },
+  winnerBadgeText: {
+    fontSize: 14,
+    color: '#121212',
+    fontWeight: '700',
+  },
+  poster: {
+    width: '100%',
+    height: IS_TV ? 420 : 300,
+    borderRadius: 12,
+    marginBottom: 16,
+    backgroundColor: '#2C2C2E',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  winnerTitle: {
+    flex: 1,
+    fontSize: IS_TV ? 32 : 22,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  matchText: {
+    fontSize: IS_TV ? 22 : 15,
+    fontWeight: '700',
+    color: '#ef4444',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 8,
+  },
+  statText: {
+    fontSize: IS_TV ? 18 : 13,
+    color: '#B0B0B5',
+  },
+  sectionTitle: {
+    fontSize: IS_TV ? 26 : 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  standingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: IS_TV ? 16 : 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    marginBottom: 8,
+    gap: 12,
+  },
+  rank: {
+    width: IS_TV ? 36 : 24,
+    fontSize: IS_TV ? 22 : 15,
+    fontWeight: 'bold',
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+  standingInfo: {
+    flex: 1,
+  },
+  standingTitle: {
+    fontSize: IS_TV ? 22 : 15,
+    color: '#fff',
+  },
+  participantsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 24,
+  },
+  participantPill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#2C2C2E',
+  },
+  participantName: {
+    fontSize: IS_TV ? 18 : 13,
+    color: '#fff',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
+
+export default SavedResultsScreen;
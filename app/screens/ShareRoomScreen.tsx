@@ -25,6 +25,7 @@ import { spacing } from 'app/theme';
 const ShareRoomScreen: React.FC<ShareRoomScreenProps> = ({ navigation, route }) => {
   const { roomCode, roomId, hostName } = route.params;
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [isPopulatingMovies, setIsPopulatingMovies] = useState(false);
 
   // Fetch room details and participants from Convex (real-time)
@@ -48,7 +49,12 @@ const ShareRoomScreen: React.FC<ShareRoomScreenProps> = ({ navigation, route })
       if (room && !isPopulatingMovies) {
         setIsPopulatingMovies(true);
         try {
-          await populateMovies({ roomId: roomId as Id<'rooms'>, category: room.category });
+          const result = await populateMovies({ roomId: roomId as Id<'rooms'> });
+          if (result.isShort) {
+            setNotice(
+              `Only ${result.totalCount} of ${result.targetCount} movies matched your filters.`
+            );
+          }
         } catch (err) {
           const error = err as Error;
           console.error('Error populating movies:', error);
@@ -63,7 +69,7 @@ const ShareRoomScreen: React.FC<ShareRoomScreenProps> = ({ navigation, route })
   }, [room, roomId]);
 
   // Get participant names
-  const participantNames = participants?.map(p => p.participantId) || [hostName];
+  const participantNames = participants?.map(p => p.displayName) || [hostName];
 
   const handleShare = async () => {
     try {
@@ -168,6 +174,13 @@ const ShareRoomScreen: React.FC<ShareRoomScreenProps> = ({ navigation, route })
           </View>
         )}
 
+        {/* Short Deck Notice */}
+        {notice && (
+          <View style={styles.noticeContainer}>
+            <Text style={styles.noticeText}>{notice}</Text>
+          </View>
+        )}
+
         {/* Action Buttons */}
         <View style={styles.buttonContainer}>
           {/* Hide Share button on Apple TV - users can manually share the room code */}
@@ -299,6 +312,19 @@ const styles = StyleSheet.create({
     color: '#fff',
     textAlign: 'center',
   },
+  noticeContainer: {
+    backgroundColor: '#2C2C2E',
+    borderWidth: 1,
+    borderColor: '#FF9500',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  noticeText: {
+    fontSize: 14,
+    color: '#FF9500',
+    textAlign: 'center',
+  },
   buttonContainer: {
     gap: 16,
     marginBottom: 16,
@@ -4,4 +4,5 @@ export * from "./JoinRoomScreen"
 export * from "./ShareRoomScreen"
 export * from "./RoomScreen"
 export * from "./ResultsScreen"
+export * from "./SavedResultsScreen"
 export * from "./AboutScreen"
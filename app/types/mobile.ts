@@ -128,8 +128,9 @@ export interface ResultsDisplayData {
 
 // Deep linking types
 export interface DeepLinkData {
-  type: 'join_room' | 'unknown';
+  type: 'join_room' | 'view_results' | 'unknown';
   roomCode?: string;
+  shareToken?: string;
   params?: Record<string, string>;
 }
 
@@ -25,6 +25,10 @@ export type RootStackParamList = {
   Results: {
     roomId: string;
     roomCode: string;
+    participantName?: string; // Enables the ranked-choice ballot
+  };
+  SavedResults: {
+    shareToken: string;
   };
 };
 
@@ -36,6 +40,7 @@ export type JoinRoomScreenNavigationProp = NativeStackNavigationProp<RootStackPa
 export type ShareRoomScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'ShareRoom'>;
 export type RoomScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Room'>;
 export type ResultsScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Results'>;
+export type SavedResultsScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'SavedResults'>;
 
 // Route Props for each screen
 export type HomeScreenRouteProp = RouteProp<RootStackParamList, 'Home'>;
@@ -45,6 +50,7 @@ export type JoinRoomScreenRouteProp = RouteProp<RootStackParamList, 'JoinRoom'>;
 export type ShareRoomScreenRouteProp = RouteProp<RootStackParamList, 'ShareRoom'>;
 export type RoomScreenRouteProp = RouteProp<RootStackParamList, 'Room'>;
 export type ResultsScreenRouteProp = RouteProp<RootStackParamList, 'Results'>;
+export type SavedResultsScreenRouteProp = RouteProp<RootStackParamList, 'SavedResults'>;
 
 // Combined Screen Props
 export type HomeScreenProps = {
@@ -82,6 +88,11 @@ export type ResultsScreenProps = {
   route: ResultsScreenRouteProp;
 };
 
+export type SavedResultsScreenProps = {
+  navigation: SavedResultsScreenNavigationProp;
+  route: SavedResultsScreenRouteProp;
+};
+
 // Deep linking configuration types
 export type DeepLinkConfig = {
   screens: {
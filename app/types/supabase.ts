@@ -11,10 +11,24 @@ export interface Room {
   host_id: string;
   streaming_preferences: string[];
   country_preference: string;
-  status: 'active' | 'completed' | 'expired';
+  status: 'lobby' | 'voting' | 'active' | 'completed' | 'expired';
   max_participants: number;
   movie_count: number;
   min_score: number;
+  media_type?: MediaType;
+  deck_source?: DeckSource;
+  voting_mode?: VotingMode;
+  runoff_size?: number | null;
+  vetoes_per_participant?: number;
+  anonymous_vetoes?: boolean;
+  end_on_unanimous_match?: boolean;
+  voting_pace?: VotingPace;
+  card_seconds?: number | null;
+  voting_minutes?: number | null;
+  nominations_per_participant?: number;
+  nominations_only?: boolean;
+  exclude_watched?: ExcludeWatched | null;
+  exclude_disliked_rooms?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -36,6 +50,27 @@ export interface Vote {
   voted_at: string;
 }
 
+// Content a room votes on
+export type MediaType = 'movie' | 'tv';
+
+// Where a room's deck is drawn from
+export type DeckSource =
+  | 'tmdb_discover'
+  | 'trakt_trending'
+  | 'trakt_popular'
+  | 'collection'
+  | 'watchlists_any'
+  | 'watchlists_all';
+
+// How a room's votes are scored
+export type VotingMode = 'like_dislike' | 'superlike' | 'stars';
+
+// Whether everyone swipes at their own pace or votes on one shared card at a time
+export type VotingPace = 'independent' | 'synchronized';
+
+// Whose watched titles are left out of a room's deck
+export type ExcludeWatched = 'any' | 'all';
+
 // Room creation input type
 export interface CreateRoomInput {
   code: string;
@@ -43,10 +78,25 @@ export interface CreateRoomInput {
   host_id: string;
   streaming_preferences: string[];
   country_preference: string;
-  status?: 'active';
+  status?: 'lobby';
   max_participants?: number;
   movie_count?: number;
   min_score?: number;
+  media_type?: MediaType;
+  deck_source?: DeckSource;
+  deck_collection_id?: string | null;
+  voting_mode?: VotingMode;
+  runoff_size?: number | null;
+  vetoes_per_participant?: number;
+  anonymous_vetoes?: boolean;
+  end_on_unanimous_match?: boolean;
+  voting_pace?: VotingPace;
+  card_seconds?: number | null;
+  voting_minutes?: number | null;
+  nominations_per_participant?: number;
+  nominations_only?: boolean;
+  exclude_watched?: ExcludeWatched | null;
+  exclude_disliked_rooms?: number | null;
 }
 
 // Vote submission input type
@@ -54,7 +104,9 @@ export interface SubmitVoteInput {
   room_id: string;
   participant_id: string;
   movie_id: string;
-  vote_type: 'like' | 'dislike';
+  vote_type: 'like' | 'dislike' | 'superlike';
+  score?: number;
+  veto?: boolean;
 }
 
 // Join room input type
@@ -91,6 +143,10 @@ export interface Movie {
   streaming_platforms?: Record<string, StreamingCountryAvailability> | null;
   vote_average?: number;
   runtime?: number;
+  media_type?: MediaType;
+  number_of_seasons?: number;
+  episode_runtime?: number;
+  nominated_by?: string | null; // Display name of whoever nominated it in the lobby
 }
 
 // Voting results aggregation type
@@ -178,6 +234,106 @@ export const MOVIE_CATEGORIES = [
   { value: 'western', label: 'Western' },
 ] as const;
 
+// TV categories (TMDB's TV genre list is coarser than the movie one)
+export const TV_CATEGORIES = [
+  { value: 'popular', label: 'Popular' },
+  { value: 'action', label: 'Action & Adventure' },
+  { value: 'animation', label: 'Animation' },
+  { value: 'comedy', label: 'Comedy' },
+  { value: 'crime', label: 'Crime' },
+  { value: 'documentary', label: 'Documentary' },
+  { value: 'drama', label: 'Drama' },
+  { value: 'family', label: 'Family' },
+  { value: 'kids', label: 'Kids' },
+  { value: 'mystery', label: 'Mystery' },
+  { value: 'reality', label: 'Reality' },
+  { value: 'sci-fi', label: 'Sci-Fi & Fantasy' },
+  { value: 'war', label: 'War & Politics' },
+  { value: 'western', label: 'Western' },
+] as const;
+
+export const MEDIA_TYPE_OPTIONS = [
+  { value: 'movie', label: 'Movies' },
+  { value: 'tv', label: 'TV Shows' },
+] as const;
+
+export const DECK_SOURCE_OPTIONS = [
+  { value: 'tmdb_discover', label: 'Discover' },
+  { value: 'trakt_trending', label: 'Trending' },
+  { value: 'trakt_popular', label: 'Most Watched' },
+  { value: 'collection', label: 'A Collection' },
+  { value: 'watchlists_any', label: 'Any Watchlist' },
+  { value: 'watchlists_all', label: 'On All Our Lists' },
+] as const;
+
+// Deck sources built from people's own lists rather than a category
+export const LIST_DECK_SOURCES: ReadonlyArray<DeckSource> = ['collection', 'watchlists_any', 'watchlists_all'];
+
+export const VOTING_MODE_OPTIONS = [
+  { value: 'like_dislike', label: 'Like / Pass', description: 'Most likes wins' },
+  { value: 'superlike', label: 'Super Likes', description: 'A super like counts double' },
+  { value: 'stars', label: '1-5 Stars', description: 'Highest average rating wins' },
+] as const;
+
+// Finalists sent to a ranked-choice runoff (null means no runoff)
+export const RUNOFF_SIZE_OPTIONS = [
+  { value: null, label: 'Off' },
+  { value: 3, label: 'Top 3' },
+  { value: 5, label: 'Top 5' },
+] as const;
+
+// Vetoes each participant can spend (0 turns vetoes off)
+export const VETO_OPTIONS = [
+  { value: 0, label: 'Off' },
+  { value: 1, label: '1 veto' },
+  { value: 2, label: '2 vetoes' },
+  { value: 3, label: '3 vetoes' },
+] as const;
+
+export const VOTING_PACE_OPTIONS = [
+  { value: 'independent', label: 'Own pace', description: 'Everyone swipes through the deck on their own' },
+  { value: 'synchronized', label: 'Together', description: 'Everyone votes on the same card, then the room moves on' },
+] as const;
+
+// Seconds to vote on each card before it's skipped (null means no limit)
+export const CARD_TIMER_OPTIONS = [
+  { value: null, label: 'Off' },
+  { value: 15, label: '15s per card' },
+  { value: 30, label: '30s per card' },
+  { value: 60, label: '60s per card' },
+] as const;
+
+// Minutes until voting closes for everyone (null means no limit)
+export const VOTING_TIME_LIMIT_OPTIONS = [
+  { value: null, label: 'No limit' },
+  { value: 10, label: '10 min' },
+  { value: 20, label: '20 min' },
+  { value: 30, label: '30 min' },
+] as const;
+
+// Titles each participant can nominate in the lobby (0 turns nominations off)
+export const NOMINATION_OPTIONS = [
+  { value: 0, label: 'Off' },
+  { value: 1, label: '1 each' },
+  { value: 2, label: '2 each' },
+  { value: 3, label: '3 each' },
+] as const;
+
+// Skip titles participants already marked watched (null keeps them)
+export const EXCLUDE_WATCHED_OPTIONS = [
+  { value: null, label: 'Keep' },
+  { value: 'any', label: 'Seen by anyone' },
+  { value: 'all', label: 'Seen by everyone' },
+] as const;
+
+// Skip titles the group voted down in its last N rooms (null keeps them)
+export const EXCLUDE_DISLIKED_OPTIONS = [
+  { value: null, label: 'Keep' },
+  { value: 3, label: 'Last 3 rooms' },
+  { value: 5, label: 'Last 5 rooms' },
+  { value: 10, label: 'Last 10 rooms' },
+] as const;
+
 // Streaming services with TMDB provider IDs
 export const STREAMING_SERVICES = [
   { id: 'netflix', name: 'Netflix', providerId: 8 },
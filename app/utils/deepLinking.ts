@@ -29,6 +29,18 @@ export class DeepLinkingService {
         }
       }
 
+      // Handle results link: movieZang://results/<token> or https://movieZang.app/results/<token>
+      if (path?.includes('results/') || hostname === 'results') {
+        const shareToken = path?.replace('results/', '') || queryParams?.shareToken;
+
+        if (shareToken && /^[0-9a-f]{32}$/.test(shareToken as string)) {
+          return {
+            type: 'view_results',
+            shareToken: shareToken as string,
+          };
+        }
+      }
+
       return { type: 'unknown' };
     } catch (error) {
       console.error('Failed to parse deep link:', error);
@@ -50,6 +62,13 @@ export class DeepLinkingService {
     return `${this.webPrefix}/join/${roomCode}`;
   }
 
+  /**
+   * Create web link to a room's saved results
+   */
+  createResultsLink(shareToken: string): string {
+    return `${this.webPrefix}/results/${shareToken}`;
+  }
+
   /**
    * Create universal link (works for both app and web)
    */
@@ -146,10 +165,10 @@ export const linkingConfig = {
           roomCode: (roomCode: string) => roomCode,
         },
       },
-      Results: {
-        path: 'results/:roomCode',
+      SavedResults: {
+        path: 'results/:shareToken',
         parse: {
-          roomCode: (roomCode: string) => roomCode,
+          shareToken: (shareToken: string) => shareToken,
         },
       },
     },
@@ -0,0 +1,40 @@
+import { MutationCtx, QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+
+// Movies the participant ran out of time on in a room
+export async function getAbstainedMovieIds(
+  ctx: QueryCtx,
+  roomId: Id<"rooms">,
+  participantId: string
+): Promise<Set<Id<"movies">>> {
+  const abstentions = await ctx.db
+    .query("abstentions")
+    .withIndex("by_participant_and_room", (q) =>
+      q.eq("participantId", participantId).eq("roomId", roomId)
+    )
+    .collect();
+
+  return new Set(abstentions.map((abstention) => abstention.movieId));
+}
+
+// Record that a participant let a card's time run out. Nothing is recorded when
+// they already voted on it or already abstained.
+export async function recordAbstention(
+  ctx: MutationCtx,
+  roomId: Id<"rooms">,
+  movieId: Id<"movies">,
+  participantId: string
+) {
+  const vote = await ctx.db
+    .query("votes")
+    .withIndex("by_participant", (q) => q.eq("participantId", participantId))
+    .filter((q) => q.and(q.eq(q.field("roomId"), roomId), q.eq(q.field("movieId"), movieId)))
+    .first();
+
+  if (vote || (await getAbstainedMovieIds(ctx, roomId, participantId)).has(movieId)) {
+    return false;
+  }
+
+  await ctx.db.insert("abstentions", { roomId, movieId, participantId, createdAt: Date.now() });
+  return true;
+}
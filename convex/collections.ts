@@ -1,5 +1,6 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
 import { getAuthUserId } from "@convex-dev/auth/server";
 
 export const createCollection = mutation({
@@ -78,6 +79,39 @@ export const getCollectionItems = query({
   },
 });
 
+// Add a saved title to a collection the user owns, logging it to their activity.
+// Adding a title that's already in the collection is a no-op.
+export async function addCollectionItem(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  collectionId: Id<"collections">,
+  savedTitleId: Id<"savedTitles">
+): Promise<Id<"collectionItems">> {
+  // Check if already in collection
+  const existing = await ctx.db
+    .query("collectionItems")
+    .withIndex("by_collection", (q) => q.eq("collectionId", collectionId))
+    .filter((q) => q.eq(q.field("savedTitleId"), savedTitleId))
+    .first();
+
+  if (existing) return existing._id;
+
+  const itemId = await ctx.db.insert("collectionItems", {
+    collectionId,
+    savedTitleId,
+  });
+
+  // Create activity
+  await ctx.db.insert("activities", {
+    userId,
+    type: "added_to_collection",
+    savedTitleId,
+    collectionId,
+  });
+
+  return itemId;
+}
+
 export const addToCollection = mutation({
   args: {
     collectionId: v.id("collections"),
@@ -92,29 +126,7 @@ export const addToCollection = mutation({
       throw new Error("Collection not found");
     }
 
-    // Check if already in collection
-    const existing = await ctx.db
-      .query("collectionItems")
-      .withIndex("by_collection", (q) => q.eq("collectionId", args.collectionId))
-      .filter((q) => q.eq(q.field("savedTitleId"), args.savedTitleId))
-      .first();
-
-    if (existing) return existing._id;
-
-    const itemId = await ctx.db.insert("collectionItems", {
-      collectionId: args.collectionId,
-      savedTitleId: args.savedTitleId,
-    });
-
-    // Create activity
-    await ctx.db.insert("activities", {
-      userId,
-      type: "added_to_collection",
-      savedTitleId: args.savedTitleId,
-      collectionId: args.collectionId,
-    });
-
-    return itemId;
+    return await addCollectionItem(ctx, userId, args.collectionId, args.savedTitleId);
   },
 });
 
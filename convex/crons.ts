@@ -0,0 +1,21 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Rooms are otherwise only marked expired when someone tries to join or vote
+crons.interval("expire rooms", { minutes: 15 }, internal.rooms.expireRooms, {});
+
+// Queries can't watch the clock, so participants who dropped off are marked offline here
+crons.interval("mark inactive participants", { minutes: 1 }, internal.rooms.markInactiveParticipants, {});
+
+// Live vote reactions and typing indicators are short-lived
+crons.interval("cleanup vote reactions", { minutes: 5 }, internal.voteReactions.cleanupOldReactions, {});
+crons.interval("cleanup typing status", { minutes: 5 }, internal.presence.cleanupStaleTypingStatus, {});
+
+crons.interval("purge expired TMDB cache", { hours: 1 }, internal.tmdbCache.purgeExpired, {});
+
+// Retention policy for old rooms (see ROOM_RETENTION_DAYS)
+crons.daily("purge expired room data", { hourUTC: 4, minuteUTC: 0 }, internal.roomRetention.purgeExpiredRoomData, {});
+
+export default crons;
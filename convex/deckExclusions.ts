@@ -0,0 +1,165 @@
+import { v } from "convex/values";
+import { internalQuery, MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { getRejectedOnBalance } from "./voteScoring";
+
+// Keeps titles the group has already dealt with out of new decks: anything the
+// participants marked watched in their saved titles, and anything they voted
+// down in their last few rooms. Votes are purged by the retention job, so the
+// room history only reaches back ROOM_RETENTION_DAYS.
+
+// Each participant's saved titles for a media type. Participants with nothing
+// saved (e.g. guests) are left out, so they don't empty "everyone" checks.
+export async function getSavedTitleLists(
+  ctx: QueryCtx,
+  roomId: Id<"rooms">,
+  mediaType: "movie" | "tv"
+): Promise<Doc<"savedTitles">[][]> {
+  const participants = await ctx.db
+    .query("roomParticipants")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .collect();
+
+  const lists = [];
+  for (const participant of participants) {
+    const userId = ctx.db.normalizeId("users", participant.participantId);
+    if (!userId) continue;
+
+    const saved = (
+      await ctx.db
+        .query("savedTitles")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .collect()
+    ).filter((title) => title.mediaType === mediaType);
+
+    if (saved.length > 0) {
+      lists.push(saved);
+    }
+  }
+
+  return lists;
+}
+
+// TMDB IDs marked watched by any (or every) participant with saved titles
+async function getWatchedTmdbIds(ctx: QueryCtx, room: Doc<"rooms">, everyone: boolean) {
+  const lists = await getSavedTitleLists(ctx, room._id, room.mediaType ?? "movie");
+  const watchedBy = new Map<number, number>();
+
+  for (const list of lists) {
+    for (const title of list) {
+      if (title.isWatched) {
+        watchedBy.set(title.tmdbId, (watchedBy.get(title.tmdbId) ?? 0) + 1);
+      }
+    }
+  }
+
+  return [...watchedBy]
+    .filter(([, count]) => !everyone || count === lists.length)
+    .map(([tmdbId]) => tmdbId);
+}
+
+// Movies the group voted down on balance (more dislikes than likes from the
+// room's current participants) across the most recent rooms any of them were in
+async function getRejectedMovieIds(ctx: QueryCtx, room: Doc<"rooms">, roomCount: number) {
+  const participants = await ctx.db
+    .query("roomParticipants")
+    .withIndex("by_room", (q) => q.eq("roomId", room._id))
+    .collect();
+  const group = new Set(participants.map((p) => p.participantId));
+
+  const pastRooms = new Map<Id<"rooms">, number>();
+  for (const participantId of group) {
+    const memberships = await ctx.db
+      .query("roomParticipants")
+      .withIndex("by_participant", (q) => q.eq("participantId", participantId))
+      .order("desc")
+      .take(roomCount + 1);
+
+    for (const membership of memberships) {
+      if (membership.roomId === room._id) continue;
+      pastRooms.set(membership.roomId, Math.max(pastRooms.get(membership.roomId) ?? 0, membership.joinedAt));
+    }
+  }
+
+  const recentRoomIds = [...pastRooms]
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, roomCount)
+    .map(([roomId]) => roomId);
+
+  const votes = [];
+  for (const roomId of recentRoomIds) {
+    votes.push(
+      ...(await ctx.db
+        .query("votes")
+        .withIndex("by_room", (q) => q.eq("roomId", roomId))
+        .collect())
+    );
+  }
+
+  return getRejectedOnBalance(votes, group);
+}
+
+// TMDB IDs that shouldn't be dealt into this room's deck
+export async function getExcludedTmdbIds(ctx: QueryCtx, room: Doc<"rooms">): Promise<Set<number>> {
+  const excluded = new Set<number>();
+
+  if (room.excludeWatched) {
+    for (const tmdbId of await getWatchedTmdbIds(ctx, room, room.excludeWatched === "all")) {
+      excluded.add(tmdbId);
+    }
+  }
+
+  if (room.excludeDislikedRooms) {
+    const mediaType = room.mediaType ?? "movie";
+    for (const movieId of await getRejectedMovieIds(ctx, room, room.excludeDislikedRooms)) {
+      const movie = await ctx.db.get(movieId);
+      if (movie && (movie.mediaType ?? "movie") === mediaType) {
+        excluded.add(movie.tmdbId);
+      }
+    }
+  }
+
+  return excluded;
+}
+
+// Drop excluded cards (but never nominations) from a deck built before everyone
+// had joined. Returns how many were removed so the caller can backfill.
+export async function pruneExcludedTitles(ctx: MutationCtx, room: Doc<"rooms">): Promise<number> {
+  const excluded = await getExcludedTmdbIds(ctx, room);
+  if (excluded.size === 0) {
+    return 0;
+  }
+
+  const deck = await ctx.db
+    .query("roomMovies")
+    .withIndex("by_room", (q) => q.eq("roomId", room._id))
+    .collect();
+
+  let removed = 0;
+  for (const link of deck) {
+    if (link.nominatedBy) continue;
+
+    const movie = await ctx.db.get(link.movieId);
+    if (movie && excluded.has(movie.tmdbId)) {
+      await ctx.db.delete(link._id);
+      removed++;
+    }
+  }
+
+  return removed;
+}
+
+// Exclusions for populateRoomWithMovies
+export const getDeckExclusions = internalQuery({
+  args: {
+    roomId: v.id("rooms"),
+  },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (!room) {
+      return [];
+    }
+
+    return [...(await getExcludedTmdbIds(ctx, room))];
+  },
+});
@@ -0,0 +1,116 @@
+import { MutationCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { appendToDeck, upsertMovie } from "./votingMovies";
+import { getExcludedTmdbIds, getSavedTitleLists } from "./deckExclusions";
+
+// Decks built from people's own lists instead of a metadata provider. Saved
+// titles are copied into `movies` rows so the rest of the room treats them like
+// any other card. A collection deck is built when the room is created; watchlist
+// decks wait until voting starts so everyone who joined the lobby is included.
+
+export type ListDeckSource = "collection" | "watchlists_any" | "watchlists_all";
+
+export function isListDeckSource(source: Doc<"rooms">["deckSource"]): source is ListDeckSource {
+  return source === "collection" || source === "watchlists_any" || source === "watchlists_all";
+}
+
+// Rooms whose deck is built from the participants' watchlists when voting starts
+export function buildsDeckOnStart(room: Doc<"rooms">): boolean {
+  return !room.nominationsOnly && (room.deckSource === "watchlists_any" || room.deckSource === "watchlists_all");
+}
+
+// Same key a movies row is unique on
+function titleKey(title: { tmdbId: number; mediaType?: string }) {
+  return `${title.mediaType ?? "movie"}:${title.tmdbId}`;
+}
+
+// Titles in a collection, for the room's media type
+async function getCollectionTitles(ctx: MutationCtx, room: Doc<"rooms">) {
+  const collectionId = room.deckCollectionId;
+  if (!collectionId) {
+    return [];
+  }
+
+  const items = await ctx.db
+    .query("collectionItems")
+    .withIndex("by_collection", (q) => q.eq("collectionId", collectionId))
+    .collect();
+
+  const titles = await Promise.all(items.map((item) => ctx.db.get(item.savedTitleId)));
+  return titles.filter(
+    (title): title is Doc<"savedTitles"> =>
+      title !== null && title.mediaType === (room.mediaType ?? "movie")
+  );
+}
+
+// Unwatched saved titles of everyone in the room, ordered by how many lists
+// they're on. Participants with nothing saved (e.g. guests) don't count towards
+// "on every list".
+async function getWatchlistTitles(ctx: MutationCtx, room: Doc<"rooms">, everyList: boolean) {
+  const lists = await getSavedTitleLists(ctx, room._id, room.mediaType ?? "movie");
+
+  const counts = new Map<string, { title: Doc<"savedTitles">; lists: number }>();
+  let listCount = 0;
+
+  for (const list of lists) {
+    const unwatched = list.filter((title) => !title.isWatched);
+    if (unwatched.length === 0) continue;
+
+    listCount++;
+    for (const title of unwatched) {
+      const key = titleKey(title);
+      const entry = counts.get(key);
+      counts.set(key, { title: entry?.title ?? title, lists: (entry?.lists ?? 0) + 1 });
+    }
+  }
+
+  return [...counts.values()]
+    .filter((entry) => !everyList || entry.lists === listCount)
+    .sort((a, b) => b.lists - a.lists)
+    .map((entry) => entry.title);
+}
+
+// Copy the room's list titles into its deck, skipping anything already in it
+// (e.g. nominations) or excluded for the group. Returns how many cards were added.
+export async function buildListDeck(ctx: MutationCtx, room: Doc<"rooms">): Promise<number> {
+  const titles =
+    room.deckSource === "collection"
+      ? await getCollectionTitles(ctx, room)
+      : await getWatchlistTitles(ctx, room, room.deckSource === "watchlists_all");
+
+  const deck = await ctx.db
+    .query("roomMovies")
+    .withIndex("by_room", (q) => q.eq("roomId", room._id))
+    .collect();
+  const inDeck = new Set<string>();
+  for (const link of deck) {
+    const movie = await ctx.db.get(link.movieId);
+    if (movie) inDeck.add(titleKey(movie));
+  }
+
+  const excluded = await getExcludedTmdbIds(ctx, room);
+
+  const limit = room.movieCount ?? titles.length;
+  const movieIds = [];
+  for (const title of titles) {
+    if (movieIds.length >= limit) break;
+    if (inDeck.has(titleKey(title)) || excluded.has(title.tmdbId)) continue;
+
+    inDeck.add(titleKey(title));
+    movieIds.push(
+      await upsertMovie(ctx, {
+        tmdbId: title.tmdbId,
+        mediaType: title.mediaType,
+        title: title.title,
+        posterPath: title.posterPath,
+        releaseDate: title.releaseDate,
+        streamingPlatforms: title.streamingPlatforms,
+        director: title.director,
+        cast: title.actors,
+      })
+    );
+  }
+
+  await appendToDeck(ctx, room._id, movieIds);
+  return movieIds.length;
+}
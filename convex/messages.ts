@@ -1,14 +1,17 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { getDisplayNames, requireParticipant } from "./participants";
 
 // Send a message to a room
 export const sendMessage = mutation({
   args: {
     roomId: v.id("rooms"),
-    participantId: v.string(),
     message: v.string(),
   },
   handler: async (ctx, args) => {
+    // Messages are always sent as the signed-in caller
+    const { participantId } = await requireParticipant(ctx, args.roomId);
+
     // Validate message
     const trimmedMessage = args.message.trim();
     if (!trimmedMessage) {
@@ -22,7 +25,7 @@ export const sendMessage = mutation({
     // Insert message
     const messageId = await ctx.db.insert("messages", {
       roomId: args.roomId,
-      participantId: args.participantId,
+      participantId,
       message: trimmedMessage,
       createdAt: Date.now(),
     });
@@ -43,7 +46,8 @@ export const getMessages = query({
       .order("asc")
       .collect();
 
-    return messages;
+    const displayName = await getDisplayNames(ctx, args.roomId);
+    return messages.map((message) => ({ ...message, displayName: displayName(message.participantId) }));
   },
 });
 
@@ -63,7 +67,10 @@ export const getRecentMessages = query({
       .take(limit);
 
     // Reverse to show oldest first
-    return messages.reverse();
+    const displayName = await getDisplayNames(ctx, args.roomId);
+    return messages
+      .reverse()
+      .map((message) => ({ ...message, displayName: displayName(message.participantId) }));
   },
 });
 
@@ -71,15 +78,22 @@ export const getRecentMessages = query({
 export const addReaction = mutation({
   args: {
     messageId: v.id("messages"),
-    participantId: v.string(),
     emoji: v.string(),
   },
   handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) {
+      throw new Error("Message not found");
+    }
+
+    // Only people in the room can react, and always as themselves
+    const { participantId } = await requireParticipant(ctx, message.roomId);
+
     // Check if user already reacted with this emoji
     const existing = await ctx.db
       .query("messageReactions")
       .withIndex("by_participant_and_message", (q) =>
-        q.eq("participantId", args.participantId).eq("messageId", args.messageId)
+        q.eq("participantId", participantId).eq("messageId", args.messageId)
       )
       .filter((q) => q.eq(q.field("emoji"), args.emoji))
       .first();
@@ -92,7 +106,7 @@ export const addReaction = mutation({
       // Add new reaction
       await ctx.db.insert("messageReactions", {
         messageId: args.messageId,
-        participantId: args.participantId,
+        participantId,
         emoji: args.emoji,
         createdAt: Date.now(),
       });
@@ -0,0 +1,263 @@
+import { ActionCtx } from "./_generated/server";
+import { api } from "./_generated/api";
+
+// Metadata providers that can build a room's deck. Each one normalizes its
+// results to NormalizedTitle so the room pipeline doesn't care where they came from.
+
+export type MediaType = "movie" | "tv";
+
+export type DeckSource = "tmdb_discover" | "trakt_trending" | "trakt_popular";
+
+// Title normalized from any provider. TMDB supplies posters, details and watch
+// providers, so titles without a TMDB ID are dropped by the providers.
+export interface NormalizedTitle {
+  tmdbId: number;
+  mediaType: MediaType;
+  title: string;
+  overview?: string;
+  posterPath?: string;
+  releaseDate?: string;
+  genreIds?: number[];
+  voteAverage?: number;
+  runtime?: number;
+  traktId?: number;
+  imdbId?: string;
+}
+
+export interface DeckQuery {
+  mediaType: MediaType;
+  category: string;
+  page: number;
+  streamingProviderIds?: number[];
+  watchRegion?: string;
+  minScore?: number;
+}
+
+export interface TitlePage {
+  titles: NormalizedTitle[];
+  page: number;
+  totalPages: number;
+}
+
+export interface MetadataProvider {
+  source: DeckSource;
+  // Whether fetchPage already restricts results to the query's streaming providers
+  filtersByWatchProvider: boolean;
+  fetchPage(ctx: ActionCtx, query: DeckQuery): Promise<TitlePage>;
+}
+
+// Category to TMDB genre ID mapping
+const CATEGORY_TO_GENRE_ID: Record<string, string | null> = {
+  popular: null,
+  action: "28",
+  adventure: "12",
+  animation: "16",
+  comedy: "35",
+  crime: "80",
+  documentary: "99",
+  drama: "18",
+  family: "10751",
+  fantasy: "14",
+  history: "36",
+  horror: "27",
+  music: "10402",
+  mystery: "9648",
+  romance: "10749",
+  "sci-fi": "878",
+  thriller: "53",
+  war: "10752",
+  western: "37",
+};
+
+// Category to TMDB TV genre ID mapping (TV uses its own, coarser genre list)
+const CATEGORY_TO_TV_GENRE_ID: Record<string, string | null> = {
+  popular: null,
+  action: "10759", // Action & Adventure
+  adventure: "10759",
+  animation: "16",
+  comedy: "35",
+  crime: "80",
+  documentary: "99",
+  drama: "18",
+  family: "10751",
+  fantasy: "10765", // Sci-Fi & Fantasy
+  kids: "10762",
+  mystery: "9648",
+  reality: "10764",
+  "sci-fi": "10765",
+  war: "10768", // War & Politics
+  western: "37",
+};
+
+// Category to Trakt genre slugs (comma-separated slugs are OR'd by Trakt)
+const CATEGORY_TO_TRAKT_GENRES: Record<string, string | null> = {
+  popular: null,
+  action: "action",
+  adventure: "adventure",
+  animation: "animation",
+  comedy: "comedy",
+  crime: "crime",
+  documentary: "documentary",
+  drama: "drama",
+  family: "family",
+  fantasy: "fantasy",
+  history: "history",
+  horror: "horror",
+  kids: "children",
+  music: "music",
+  mystery: "mystery",
+  reality: "reality",
+  romance: "romance",
+  "sci-fi": "science-fiction",
+  thriller: "thriller",
+  war: "war",
+  western: "western",
+};
+
+// Trakt returns this many titles per page when asked
+const TRAKT_PAGE_SIZE = 20;
+
+interface TMDBDiscoverResult {
+  id: number;
+  title?: string; // Movies
+  name?: string; // TV
+  overview: string;
+  poster_path: string | null;
+  release_date?: string; // Movies
+  first_air_date?: string; // TV
+  genre_ids: number[];
+  vote_average?: number;
+}
+
+interface TMDBDiscoverResponse {
+  results: TMDBDiscoverResult[];
+  page: number;
+  total_pages: number;
+}
+
+interface TraktTitle {
+  title: string;
+  year?: number;
+  ids: { trakt?: number; imdb?: string; tmdb?: number | null };
+  overview?: string;
+  released?: string; // Movies
+  first_aired?: string; // TV (ISO timestamp)
+  runtime?: number;
+  rating?: number;
+}
+
+interface TraktListResponse {
+  results: TraktTitle[];
+  pagination: { page: number; pageCount: number };
+}
+
+function resolveCategory(map: Record<string, string | null>, category: string): string | null {
+  const value = map[category.toLowerCase()];
+  if (value === undefined) {
+    throw new Error(`Unknown category: ${category}`);
+  }
+  return value;
+}
+
+function fromTMDB(result: TMDBDiscoverResult, mediaType: MediaType): NormalizedTitle {
+  return {
+    tmdbId: result.id,
+    mediaType,
+    title: (mediaType === "tv" ? result.name : result.title) ?? "",
+    overview: result.overview || undefined,
+    posterPath: result.poster_path || undefined,
+    releaseDate: (mediaType === "tv" ? result.first_air_date : result.release_date) || undefined,
+    genreIds: result.genre_ids || undefined,
+    voteAverage: result.vote_average ?? undefined,
+  };
+}
+
+function fromTrakt(item: TraktTitle, mediaType: MediaType): NormalizedTitle | null {
+  if (!item.ids.tmdb) {
+    return null;
+  }
+
+  return {
+    tmdbId: item.ids.tmdb,
+    mediaType,
+    title: item.title,
+    overview: item.overview || undefined,
+    releaseDate: (item.released ?? item.first_aired?.slice(0, 10)) || undefined,
+    voteAverage: item.rating ?? undefined,
+    // Trakt reports episode length for shows; TMDB details fill that in separately
+    runtime: mediaType === "movie" ? item.runtime ?? undefined : undefined,
+    traktId: item.ids.trakt,
+    imdbId: item.ids.imdb,
+  };
+}
+
+const tmdbDiscoverProvider: MetadataProvider = {
+  source: "tmdb_discover",
+  filtersByWatchProvider: true,
+  async fetchPage(ctx, query) {
+    const genreMap = query.mediaType === "tv" ? CATEGORY_TO_TV_GENRE_ID : CATEGORY_TO_GENRE_ID;
+    const genreId = resolveCategory(genreMap, query.category);
+
+    const response: TMDBDiscoverResponse = await ctx.runAction(
+      query.mediaType === "tv" ? api.tmdb.discoverTV : api.tmdb.discoverMovies,
+      {
+        page: query.page,
+        sortBy: "popularity.desc",
+        // Only add genre filter if not "popular"
+        withGenres: genreId ?? undefined,
+        // TMDB treats "|" as OR, so a title on any of the selected services qualifies
+        withWatchProviders: query.streamingProviderIds?.length
+          ? query.streamingProviderIds.join("|")
+          : undefined,
+        watchRegion: query.watchRegion,
+        voteAverageGte: query.minScore || undefined,
+      }
+    );
+
+    return {
+      titles: response.results.map((result) => fromTMDB(result, query.mediaType)),
+      page: response.page,
+      totalPages: response.total_pages,
+    };
+  },
+};
+
+function traktListProvider(source: DeckSource, list: "trending" | "popular"): MetadataProvider {
+  return {
+    source,
+    filtersByWatchProvider: false,
+    async fetchPage(ctx, query) {
+      const genres = resolveCategory(CATEGORY_TO_TRAKT_GENRES, query.category);
+
+      const response: TraktListResponse = await ctx.runAction(api.traktSearch.getTitleList, {
+        list,
+        mediaType: query.mediaType,
+        page: query.page,
+        limit: TRAKT_PAGE_SIZE,
+        genres: genres ?? undefined,
+        // Trakt ratings are 0-100
+        ratings: query.minScore ? `${Math.round(query.minScore * 10)}-100` : undefined,
+      });
+
+      const titles = response.results
+        .map((item) => fromTrakt(item, query.mediaType))
+        .filter((title): title is NormalizedTitle => title !== null);
+
+      return {
+        titles,
+        page: response.pagination.page,
+        totalPages: response.pagination.pageCount,
+      };
+    },
+  };
+}
+
+const PROVIDERS: Record<DeckSource, MetadataProvider> = {
+  tmdb_discover: tmdbDiscoverProvider,
+  trakt_trending: traktListProvider("trakt_trending", "trending"),
+  trakt_popular: traktListProvider("trakt_popular", "popular"),
+};
+
+export function getMetadataProvider(source: DeckSource | undefined): MetadataProvider {
+  return PROVIDERS[source ?? "tmdb_discover"];
+}
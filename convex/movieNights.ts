@@ -0,0 +1,174 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { saveTitleForUser } from "./titles";
+import { addCollectionItem } from "./collections";
+
+// After a room finishes, participants can keep its winner in a "Movie Nights"
+// collection. Once the night is over they're asked whether they watched it, and
+// marking it watched and rating it goes through the usual titles mutations, so
+// friends see it in their activity feed.
+
+const MOVIE_NIGHTS_COLLECTION = "Movie Nights";
+
+// How long after saving a winner before asking how the night went
+const FOLLOW_UP_DELAY_MS = 3 * 60 * 60 * 1000;
+
+async function findMovieNights(ctx: QueryCtx, userId: Id<"users">) {
+  return await ctx.db
+    .query("collections")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .filter((q) => q.eq(q.field("name"), MOVIE_NIGHTS_COLLECTION))
+    .first();
+}
+
+async function getOrCreateMovieNights(ctx: MutationCtx, userId: Id<"users">) {
+  const existing = await findMovieNights(ctx, userId);
+  if (existing) return existing._id;
+
+  return await ctx.db.insert("collections", {
+    userId,
+    name: MOVIE_NIGHTS_COLLECTION,
+    description: "Winners from the rooms you voted in",
+    isPublic: false,
+  });
+}
+
+// The room's winner from its frozen results, if the caller voted in it. A runoff
+// or tie-break settled after voting overrides the first-round winner.
+async function getRoomWinner(ctx: QueryCtx, roomId: Id<"rooms">, userId: Id<"users">) {
+  const snapshot = await ctx.db
+    .query("roomResults")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .first();
+
+  const winnerId = snapshot?.finalWinnerId ?? snapshot?.winningMovieId;
+  if (!snapshot || !winnerId) return null;
+  if (!snapshot.participants.some((p) => p.participantId === userId)) return null;
+
+  return await ctx.db.get(winnerId);
+}
+
+async function isInMovieNights(ctx: QueryCtx, userId: Id<"users">, winner: Doc<"movies">) {
+  const collection = await findMovieNights(ctx, userId);
+  if (!collection) return false;
+
+  const saved = await ctx.db
+    .query("savedTitles")
+    .withIndex("by_user_and_tmdb", (q) => q.eq("userId", userId).eq("tmdbId", winner.tmdbId))
+    .first();
+  if (!saved) return false;
+
+  const item = await ctx.db
+    .query("collectionItems")
+    .withIndex("by_saved_title", (q) => q.eq("savedTitleId", saved._id))
+    .filter((q) => q.eq(q.field("collectionId"), collection._id))
+    .first();
+  return item !== null;
+}
+
+// Whether the caller can save this room's winner, and whether they already have
+export const getWinnerSaveStatus = query({
+  args: {
+    roomId: v.id("rooms"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const winner = await getRoomWinner(ctx, args.roomId, userId);
+    if (!winner) return null;
+
+    return {
+      title: winner.title,
+      isSaved: await isInMovieNights(ctx, userId, winner),
+    };
+  },
+});
+
+// Save the room's winner to the caller's titles and their Movie Nights collection
+export const saveWinner = mutation({
+  args: {
+    roomId: v.id("rooms"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const winner = await getRoomWinner(ctx, args.roomId, userId);
+    if (!winner) {
+      throw new Error("This room has no winner to save");
+    }
+
+    const savedTitleId = await saveTitleForUser(ctx, userId, {
+      tmdbId: winner.tmdbId,
+      mediaType: winner.mediaType ?? "movie",
+      title: winner.title,
+      posterPath: winner.posterPath,
+      releaseDate: winner.releaseDate,
+      streamingPlatforms: winner.streamingPlatforms,
+      director: winner.director,
+      actors: winner.cast,
+    });
+
+    const collectionId = await getOrCreateMovieNights(ctx, userId);
+    const collectionItemId = await addCollectionItem(ctx, userId, collectionId, savedTitleId);
+
+    // Queries can't wait on the clock, so the follow-up is flagged once it's due
+    await ctx.scheduler.runAfter(FOLLOW_UP_DELAY_MS, internal.movieNights.markFollowUpDue, {
+      collectionItemId,
+    });
+
+    return { savedTitleId };
+  },
+});
+
+export const markFollowUpDue = internalMutation({
+  args: {
+    collectionItemId: v.id("collectionItems"),
+  },
+  handler: async (ctx, args) => {
+    const item = await ctx.db.get(args.collectionItemId);
+    if (!item || item.followUpDueAt !== undefined) return;
+
+    await ctx.db.patch(item._id, { followUpDueAt: Date.now() });
+  },
+});
+
+// Movie Nights winners saved a while ago that haven't been marked watched yet,
+// most recent first
+export const getMovieNightFollowUps = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const collection = await findMovieNights(ctx, userId);
+    if (!collection) return [];
+
+    const items = await ctx.db
+      .query("collectionItems")
+      .withIndex("by_collection", (q) => q.eq("collectionId", collection._id))
+      .filter((q) => q.neq(q.field("followUpDueAt"), undefined))
+      .order("desc")
+      .collect();
+
+    const followUps = [];
+    for (const item of items) {
+      const title = await ctx.db.get(item.savedTitleId);
+      if (!title || title.isWatched) continue;
+
+      followUps.push({
+        savedTitleId: title._id,
+        title: title.title,
+        mediaType: title.mediaType,
+        posterPath: title.posterPath ?? null,
+        savedAt: item._creationTime,
+      });
+    }
+
+    return followUps;
+  },
+});
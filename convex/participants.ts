@@ -0,0 +1,74 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+
+// Participants are identified by their auth user ID (anonymous sign-in on the
+// TV app), so nobody can act as someone else by typing their name. The name
+// people type is stored separately as the participant's displayName.
+
+// Shown for participants who have since left the room
+const FALLBACK_DISPLAY_NAME = "Former participant";
+
+// The signed-in user's participant ID, or null when signed out
+export async function getCallerId(ctx: QueryCtx): Promise<string | null> {
+  return await getAuthUserId(ctx);
+}
+
+// The signed-in user's participant ID; throws when signed out
+export async function requireCallerId(ctx: QueryCtx): Promise<string> {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Not signed in");
+  }
+  return userId;
+}
+
+// The caller's participant row in a room; throws when they haven't joined
+export async function requireParticipant(
+  ctx: QueryCtx,
+  roomId: Id<"rooms">
+): Promise<Doc<"roomParticipants">> {
+  const participantId = await requireCallerId(ctx);
+
+  const participant = await ctx.db
+    .query("roomParticipants")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .filter((q) => q.eq(q.field("participantId"), participantId))
+    .first();
+
+  if (!participant) {
+    throw new Error("Not a participant in this room");
+  }
+
+  return participant;
+}
+
+// Display name to show for a participant row
+export function displayNameOf(participant: Doc<"roomParticipants">): string {
+  return participant.displayName ?? participant.participantId;
+}
+
+// Look up display names for everyone in a room, keyed by participant ID
+export async function getDisplayNames(ctx: QueryCtx, roomId: Id<"rooms">) {
+  const participants = await ctx.db
+    .query("roomParticipants")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .collect();
+
+  const names = new Map(participants.map((p) => [p.participantId, displayNameOf(p)]));
+  return (participantId: string) => names.get(participantId) ?? FALLBACK_DISPLAY_NAME;
+}
+
+// Trim and validate the name a participant typed
+export function normalizeDisplayName(displayName: string): string {
+  const trimmed = displayName.trim();
+  if (!trimmed) {
+    throw new Error("Display name cannot be empty");
+  }
+
+  if (trimmed.length > 50) {
+    throw new Error("Display name too long (max 50 characters)");
+  }
+
+  return trimmed;
+}
@@ -1,27 +1,144 @@
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
 import { components } from "./_generated/api";
 import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
 import { Presence } from "@convex-dev/presence";
+import { getCallerId, getDisplayNames, requireCallerId, requireParticipant } from "./participants";
 
 // Initialize the Presence component
 export const presence = new Presence(components.presence);
 
+// How long someone can be offline (app backgrounded, flaky Wi-Fi) before they
+// stop holding up completion
+const INACTIVE_GRACE_MS = 2 * 60 * 1000;
+
+// online: heartbeating; idle: offline within the grace period; offline: gone longer
+export type PresenceState = "online" | "idle" | "offline";
+
+export interface ParticipantActivity {
+  participant: Doc<"roomParticipants">;
+  presence: PresenceState;
+  lastSeenAt: number | null; // Null while online
+  isCounted: boolean; // Whether completion and results wait for them
+}
+
+// When someone was last around. Never heartbeated counts as last seen when they joined.
+function lastSeenAtOf(
+  participant: Doc<"roomParticipants">,
+  entry: { online: boolean; lastDisconnected: number } | undefined
+): number | null {
+  if (!entry) return participant.joinedAt;
+  return entry.online ? null : entry.lastDisconnected;
+}
+
+async function listPresence(ctx: QueryCtx, roomId: Id<"rooms">) {
+  return new Map((await presence.listRoom(ctx, roomId)).map((entry) => [entry.userId, entry]));
+}
+
+// Presence for everyone in a room. People who closed the app without leaving
+// stay in roomParticipants, so completion only counts participants who are
+// around (or already finished), unless the host has overridden it. Queries
+// can't watch the clock, so "offline" comes from the stored inactiveAt that
+// updateInactiveParticipants keeps up to date.
+export async function getParticipantActivity(
+  ctx: QueryCtx,
+  roomId: Id<"rooms">
+): Promise<ParticipantActivity[]> {
+  const participants = await ctx.db
+    .query("roomParticipants")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .collect();
+
+  const present = await listPresence(ctx, roomId);
+
+  return participants.map((participant) => {
+    const entry = present.get(participant.participantId);
+    const lastSeenAt = lastSeenAtOf(participant, entry);
+    const state: PresenceState = entry?.online
+      ? "online"
+      : participant.inactiveAt !== undefined
+        ? "offline"
+        : "idle";
+
+    return {
+      participant,
+      presence: state,
+      lastSeenAt,
+      isCounted:
+        participant.countInCompletion ??
+        (state !== "offline" || participant.votingCompletedAt !== undefined),
+    };
+  });
+}
+
+// Mark participants offline once they've been gone past the grace period, and
+// clear the mark for anyone back online. Returns whether anyone changed.
+export async function updateInactiveParticipants(
+  ctx: MutationCtx,
+  roomId: Id<"rooms">
+): Promise<boolean> {
+  const participants = await ctx.db
+    .query("roomParticipants")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .collect();
+
+  const present = await listPresence(ctx, roomId);
+  const now = Date.now();
+  let changed = false;
+
+  for (const participant of participants) {
+    const lastSeenAt = lastSeenAtOf(participant, present.get(participant.participantId));
+    const isInactive = lastSeenAt !== null && now - lastSeenAt >= INACTIVE_GRACE_MS;
+
+    if (isInactive && participant.inactiveAt === undefined) {
+      await ctx.db.patch(participant._id, { inactiveAt: now });
+      changed = true;
+    } else if (!isInactive && participant.inactiveAt !== undefined) {
+      await ctx.db.patch(participant._id, { inactiveAt: undefined });
+      changed = true;
+    }
+  }
+
+  return changed;
+}
+
+// Participants completion and results wait for
+export async function getCountedParticipants(ctx: QueryCtx, roomId: Id<"rooms">) {
+  return (await getParticipantActivity(ctx, roomId))
+    .filter((activity) => activity.isCounted)
+    .map((activity) => activity.participant);
+}
+
 // Heartbeat to maintain presence in a room
 export const heartbeat = mutation({
   args: {
     roomId: v.string(),
-    userId: v.string(),
     sessionId: v.string(),
     interval: v.number(),
     isTyping: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
+    const userId = await requireCallerId(ctx);
+
+    // Back online, so the grace period starts over next time they drop off
+    const roomId = ctx.db.normalizeId("rooms", args.roomId);
+    if (roomId) {
+      const participant = await ctx.db
+        .query("roomParticipants")
+        .withIndex("by_room", (q) => q.eq("roomId", roomId))
+        .filter((q) => q.eq(q.field("participantId"), userId))
+        .first();
+      if (participant?.inactiveAt !== undefined) {
+        await ctx.db.patch(participant._id, { inactiveAt: undefined });
+      }
+    }
+
     // Track presence using the room ID as the room token
     // Note: Store typing status in separate table for now
     return await presence.heartbeat(
       ctx,
       args.roomId,
-      args.userId,
+      userId,
       args.sessionId,
       args.interval
     );
@@ -48,16 +165,17 @@ export const disconnect = mutation({
 export const setTypingStatus = mutation({
   args: {
     roomId: v.id("rooms"),
-    participantId: v.string(),
     isTyping: v.boolean(),
   },
   handler: async (ctx, args) => {
+    const { participantId } = await requireParticipant(ctx, args.roomId);
+
     if (args.isTyping) {
       // Check if typing status already exists
       const existing = await ctx.db
         .query("typingStatus")
         .withIndex("by_participant_and_room", (q) =>
-          q.eq("participantId", args.participantId).eq("roomId", args.roomId)
+          q.eq("participantId", participantId).eq("roomId", args.roomId)
         )
         .first();
 
@@ -70,7 +188,7 @@ export const setTypingStatus = mutation({
         // Insert new
         await ctx.db.insert("typingStatus", {
           roomId: args.roomId,
-          participantId: args.participantId,
+          participantId,
           updatedAt: Date.now(),
         });
       }
@@ -79,7 +197,7 @@ export const setTypingStatus = mutation({
       const existing = await ctx.db
         .query("typingStatus")
         .withIndex("by_participant_and_room", (q) =>
-          q.eq("participantId", args.participantId).eq("roomId", args.roomId)
+          q.eq("participantId", participantId).eq("roomId", args.roomId)
         )
         .first();
 
@@ -90,7 +208,7 @@ export const setTypingStatus = mutation({
   },
 });
 
-// Get typing users in a room
+// Get display names of the other users typing in a room
 export const getTypingUsers = query({
   args: { roomId: v.id("rooms") },
   handler: async (ctx, args) => {
@@ -102,6 +220,30 @@ export const getTypingUsers = query({
       .filter((q) => q.gte(q.field("updatedAt"), threeSecondsAgo))
       .collect();
 
-    return typingUsers.map((t) => t.participantId);
+    const callerId = await getCallerId(ctx);
+    const displayName = await getDisplayNames(ctx, args.roomId);
+
+    return typingUsers
+      .filter((t) => t.participantId !== callerId)
+      .map((t) => displayName(t.participantId));
+  },
+});
+
+// Delete typing rows left behind by clients that vanished mid-message (run by the cleanup cron)
+export const cleanupStaleTypingStatus = internalMutation({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const oneMinuteAgo = Date.now() - 60 * 1000;
+
+    const staleRows = await ctx.db
+      .query("typingStatus")
+      .withIndex("by_updated", (q) => q.lt("updatedAt", oneMinuteAgo))
+      .take(args.limit ?? 500);
+
+    for (const row of staleRows) {
+      await ctx.db.delete(row._id);
+    }
+
+    return { deleted: staleRows.length };
   },
 });
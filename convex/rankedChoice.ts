@@ -0,0 +1,200 @@
+import { v } from "convex/values";
+import { mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { rankMovies, runInstantRunoff } from "./voteScoring";
+import { getVetoedMovieIds } from "./votes";
+import { getCallerId, requireCallerId, requireParticipant } from "./participants";
+import { getCountedParticipants } from "./presence";
+import { recordFinalWinner } from "./roomResults";
+
+// Top-N unvetoed movies from the first round of voting, frozen once ballots exist
+async function getFinalistIds(ctx: QueryCtx, room: Doc<"rooms">): Promise<Id<"movies">[]> {
+  if (!room.runoffSize) {
+    return [];
+  }
+
+  const vetoedMovieIds = await getVetoedMovieIds(ctx, room._id);
+
+  if (room.runoffFinalistIds) {
+    return room.runoffFinalistIds.filter((movieId) => !vetoedMovieIds.has(movieId));
+  }
+
+  const votes = (
+    await ctx.db
+      .query("votes")
+      .withIndex("by_room", (q) => q.eq("roomId", room._id))
+      .collect()
+  ).filter((vote) => !vetoedMovieIds.has(vote.movieId));
+
+  return rankMovies(votes, room.votingMode ?? "like_dislike")
+    .filter((standing) => standing.positiveVotes > 0)
+    .slice(0, room.runoffSize)
+    .map((standing) => standing.movieId);
+}
+
+// Stop taking ballots and settle the winner from the rankings cast
+async function finishRunoff(ctx: MutationCtx, roomId: Id<"rooms">) {
+  await ctx.db.patch(roomId, { runoffClosedAt: Date.now() });
+  await recordFinalWinner(ctx, roomId);
+}
+
+// Submit (or replace) a participant's ranking of the runoff finalists. Opens
+// once the first round is over, so the finalists can't shift under the ballots.
+export const submitBallot = mutation({
+  args: {
+    roomId: v.id("rooms"),
+    rankings: v.array(v.id("movies")),
+  },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    if (!room.runoffSize) {
+      throw new Error("This room has no ranked-choice runoff");
+    }
+
+    if (room.status !== "completed") {
+      throw new Error("Ranking opens once voting has finished");
+    }
+
+    if (room.runoffClosedAt !== undefined) {
+      throw new Error("The runoff has already closed");
+    }
+
+    const { participantId } = await requireParticipant(ctx, args.roomId);
+
+    const finalistIds = await getFinalistIds(ctx, room);
+    if (finalistIds.length === 0) {
+      throw new Error("No finalists yet");
+    }
+
+    if (new Set(args.rankings).size !== args.rankings.length) {
+      throw new Error("Each finalist can only be ranked once");
+    }
+
+    if (args.rankings.length === 0 || args.rankings.some((id) => !finalistIds.includes(id))) {
+      throw new Error("Rankings must only contain finalists");
+    }
+
+    // Freeze the finalists so later first-round votes can't change the ballot
+    if (!room.runoffFinalistIds) {
+      await ctx.db.patch(room._id, { runoffFinalistIds: finalistIds });
+    }
+
+    const existing = await ctx.db
+      .query("rankedBallots")
+      .withIndex("by_participant_and_room", (q) =>
+        q.eq("participantId", participantId).eq("roomId", args.roomId)
+      )
+      .first();
+
+    let ballotId: Id<"rankedBallots">;
+    if (existing) {
+      await ctx.db.patch(existing._id, { rankings: args.rankings, submittedAt: Date.now() });
+      ballotId = existing._id;
+    } else {
+      ballotId = await ctx.db.insert("rankedBallots", {
+        roomId: args.roomId,
+        participantId,
+        rankings: args.rankings,
+        submittedAt: Date.now(),
+      });
+    }
+
+    // The count only settles once everyone it's waiting for has ranked
+    const ballots = await ctx.db
+      .query("rankedBallots")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .collect();
+    const participants = await getCountedParticipants(ctx, args.roomId);
+    if (participants.every((p) => ballots.some((ballot) => ballot.participantId === p.participantId))) {
+      await finishRunoff(ctx, args.roomId);
+    }
+
+    return { ballotId, updated: existing !== null };
+  },
+});
+
+// Close the runoff with the ballots cast so far (host only)
+export const closeRunoff = mutation({
+  args: {
+    roomId: v.id("rooms"),
+  },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    if (room.hostId !== (await requireCallerId(ctx))) {
+      throw new Error("Only the host can close the runoff");
+    }
+
+    if (room.runoffClosedAt !== undefined) {
+      return { success: true };
+    }
+
+    const ballot = await ctx.db
+      .query("rankedBallots")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .first();
+    if (!ballot) {
+      throw new Error("No rankings have been submitted yet");
+    }
+
+    await finishRunoff(ctx, args.roomId);
+    return { success: true };
+  },
+});
+
+// Get the runoff finalists, ballots cast and, once it has closed, the
+// instant-runoff result. Null until the first round of voting is over.
+export const getRunoffResults = query({
+  args: {
+    roomId: v.id("rooms"),
+  },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (!room || !room.runoffSize || room.status !== "completed") {
+      return null;
+    }
+
+    const finalistIds = await getFinalistIds(ctx, room);
+    const finalists = (
+      await Promise.all(finalistIds.map((movieId) => ctx.db.get(movieId)))
+    ).filter((movie): movie is Doc<"movies"> => movie !== null);
+
+    const ballots = await ctx.db
+      .query("rankedBallots")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .collect();
+
+    const participants = await getCountedParticipants(ctx, args.roomId);
+
+    const { winnerId, rounds } = runInstantRunoff(
+      finalistIds,
+      ballots.map((ballot) => ballot.rankings)
+    );
+
+    const callerId = await getCallerId(ctx);
+    const myBallot = callerId
+      ? ballots.find((ballot) => ballot.participantId === callerId)
+      : undefined;
+
+    // A partial count would show a winner before everyone has ranked
+    const isClosed = room.runoffClosedAt !== undefined;
+
+    return {
+      finalists,
+      winnerId: isClosed ? winnerId : null,
+      rounds: isClosed ? rounds : [],
+      isClosed,
+      ballotsCast: ballots.length,
+      totalParticipants: participants.length,
+      myRankings: myBallot?.rankings ?? null,
+      isHost: callerId !== null && room.hostId === callerId,
+    };
+  },
+});
@@ -0,0 +1,159 @@
+import { v } from "convex/values";
+import { query, MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { rankMovies, runInstantRunoff, scoreVotes } from "./voteScoring";
+import { getCountedParticipants } from "./presence";
+import { displayNameOf } from "./participants";
+
+// Winner picked after the first round: the closed ranked-choice runoff's count,
+// otherwise a resolved tie-break. Same precedence as the Results screen.
+async function getSettledWinner(ctx: QueryCtx, room: Doc<"rooms">): Promise<Id<"movies"> | undefined> {
+  if (room.runoffSize && room.runoffFinalistIds && room.runoffClosedAt !== undefined) {
+    const vetoedMovieIds = new Set(
+      (
+        await ctx.db
+          .query("vetoes")
+          .withIndex("by_room", (q) => q.eq("roomId", room._id))
+          .collect()
+      ).map((veto) => veto.movieId)
+    );
+    const ballots = await ctx.db
+      .query("rankedBallots")
+      .withIndex("by_room", (q) => q.eq("roomId", room._id))
+      .collect();
+
+    const { winnerId } = runInstantRunoff(
+      room.runoffFinalistIds.filter((movieId) => !vetoedMovieIds.has(movieId)),
+      ballots.map((ballot) => ballot.rankings)
+    );
+    if (winnerId) {
+      return winnerId;
+    }
+  }
+
+  return room.tieBreak?.status === "resolved" ? room.tieBreak.winningMovieId : undefined;
+}
+
+// Bring the snapshot's final winner up to date after a runoff ballot or a
+// tie-break. A unanimous match already settled the winner, so it's left alone.
+export async function recordFinalWinner(ctx: MutationCtx, roomId: Id<"rooms">) {
+  const room = await ctx.db.get(roomId);
+  const snapshot = await ctx.db
+    .query("roomResults")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .first();
+  if (!room || !snapshot || snapshot.completionReason === "unanimous_match") {
+    return;
+  }
+
+  const finalWinnerId = await getSettledWinner(ctx, room);
+  if (finalWinnerId && finalWinnerId !== snapshot.finalWinnerId) {
+    await ctx.db.patch(snapshot._id, { finalWinnerId });
+  }
+}
+
+// Freeze the room's results at completion. Rooms can finish before everyone has
+// voted (host finish, deadline), so every score is taken against the votes
+// actually cast for a title rather than the number of participants. The standings
+// are written once and never edited, so re-votes and data retention can't change
+// them; only the final winner follows a runoff or tie-break settled afterwards.
+export async function freezeResults(
+  ctx: MutationCtx,
+  room: Doc<"rooms">,
+  completion: {
+    reason: NonNullable<Doc<"rooms">["completionReason"]>;
+    winningMovieId?: Id<"movies">;
+  }
+) {
+  const existing = await ctx.db
+    .query("roomResults")
+    .withIndex("by_room", (q) => q.eq("roomId", room._id))
+    .first();
+  if (existing) {
+    return existing._id;
+  }
+
+  const votingMode = room.votingMode ?? "like_dislike";
+
+  const vetoes = await ctx.db
+    .query("vetoes")
+    .withIndex("by_room", (q) => q.eq("roomId", room._id))
+    .collect();
+  const vetoedMovieIds = new Set(vetoes.map((veto) => veto.movieId));
+
+  const votes = await ctx.db
+    .query("votes")
+    .withIndex("by_room", (q) => q.eq("roomId", room._id))
+    .collect();
+  const countedVotes = votes.filter((vote) => !vetoedMovieIds.has(vote.movieId));
+
+  const standings = [];
+  for (const standing of rankMovies(countedVotes, votingMode)) {
+    const movie = await ctx.db.get(standing.movieId);
+    if (!movie) continue;
+
+    const movieVotes = countedVotes.filter((vote) => vote.movieId === standing.movieId);
+    standings.push({
+      movieId: standing.movieId,
+      title: movie.title,
+      posterPath: movie.posterPath,
+      releaseDate: movie.releaseDate,
+      positiveVotes: standing.positiveVotes,
+      negativeVotes: movieVotes.length - standing.positiveVotes,
+      superlikes: movieVotes.filter((vote) => vote.voteType === "superlike").length,
+      totalVotes: movieVotes.length,
+      matchPercentage: scoreVotes(movieVotes, votingMode),
+    });
+  }
+
+  const participants = await getCountedParticipants(ctx, room._id);
+
+  return await ctx.db.insert("roomResults", {
+    roomId: room._id,
+    code: room.code,
+    shareToken: crypto.randomUUID().replace(/-/g, ""),
+    mediaType: room.mediaType,
+    completionReason: completion.reason,
+    votingMode,
+    winningMovieId: completion.winningMovieId ?? standings[0]?.movieId,
+    finalWinnerId: completion.winningMovieId ? undefined : await getSettledWinner(ctx, room),
+    standings,
+    vetoedMovieIds: [...vetoedMovieIds],
+    participants: participants.map((participant) => ({
+      participantId: participant.participantId,
+      displayName: displayNameOf(participant),
+      completedVoting: participant.votingCompletedAt !== undefined,
+    })),
+    participantCount: participants.length,
+    completedCount: participants.filter((p) => p.votingCompletedAt !== undefined).length,
+    votesCast: votes.length,
+    createdAt: Date.now(),
+  });
+}
+
+// Read-only results for a shared link. Room codes are reused and easy to guess,
+// so links carry the snapshot's random share token instead.
+export const getResultsByToken = query({
+  args: {
+    shareToken: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("roomResults")
+      .withIndex("by_share_token", (q) => q.eq("shareToken", args.shareToken))
+      .first();
+  },
+});
+
+// The results frozen when the room completed (null while voting is still open)
+export const getRoomResults = query({
+  args: {
+    roomId: v.id("rooms"),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("roomResults")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .first();
+  },
+});
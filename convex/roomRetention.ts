@@ -0,0 +1,102 @@
+import { internalMutation, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+
+// Days after a room's expiry before its votes, messages and deck links are deleted
+const ROOM_RETENTION_DAYS = Number(process.env.ROOM_RETENTION_DAYS ?? 30);
+
+// Rooms handled per run; the job reschedules itself while more are due
+const ROOMS_PER_BATCH = 10;
+
+// Delete every row of a per-room table using its by_room index
+async function deleteRoomRows(
+  ctx: MutationCtx,
+  table:
+    | "votes"
+    | "vetoes"
+    | "abstentions"
+    | "rankedBallots"
+    | "tieBreakVotes"
+    | "roomMovies"
+    | "voteReactions"
+    | "typingStatus",
+  roomId: Id<"rooms">
+) {
+  const rows = await ctx.db
+    .query(table)
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .collect();
+
+  for (const row of rows) {
+    await ctx.db.delete(row._id);
+  }
+
+  return rows.length;
+}
+
+// Delete a room's chat messages along with their reactions
+async function deleteRoomMessages(ctx: MutationCtx, roomId: Id<"rooms">) {
+  const messages = await ctx.db
+    .query("messages")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .collect();
+
+  for (const message of messages) {
+    const reactions = await ctx.db
+      .query("messageReactions")
+      .withIndex("by_message", (q) => q.eq("messageId", message._id))
+      .collect();
+
+    for (const reaction of reactions) {
+      await ctx.db.delete(reaction._id);
+    }
+
+    await ctx.db.delete(message._id);
+  }
+
+  return messages.length;
+}
+
+// Apply the retention policy: strip the voting data from rooms that expired more
+// than ROOM_RETENTION_DAYS ago. The room row itself is kept (marked with
+// dataPurgedAt) so old codes still resolve to an expired room, and its frozen
+// roomResults are kept so shared result links keep working.
+export const purgeExpiredRoomData = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - ROOM_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+    const rooms = await ctx.db
+      .query("rooms")
+      .withIndex("by_purged_and_expires", (q) =>
+        q.eq("dataPurgedAt", undefined).lt("expiresAt", cutoff)
+      )
+      .take(ROOMS_PER_BATCH);
+
+    let deleted = 0;
+    for (const room of rooms) {
+      deleted += await deleteRoomMessages(ctx, room._id);
+      for (const table of [
+        "votes",
+        "vetoes",
+        "abstentions",
+        "rankedBallots",
+        "tieBreakVotes",
+        "roomMovies",
+        "voteReactions",
+        "typingStatus",
+      ] as const) {
+        deleted += await deleteRoomRows(ctx, table, room._id);
+      }
+
+      await ctx.db.patch(room._id, { dataPurgedAt: Date.now() });
+    }
+
+    // A full batch means there may be more rooms due
+    if (rooms.length === ROOMS_PER_BATCH) {
+      await ctx.scheduler.runAfter(0, internal.roomRetention.purgeExpiredRoomData, {});
+    }
+
+    return { rooms: rooms.length, deleted };
+  },
+});
@@ -1,112 +1,286 @@
 "use node";
 
-import { action } from "./_generated/server";
-import { api } from "./_generated/api";
+import { action, ActionCtx } from "./_generated/server";
+import { api, internal } from "./_generated/api";
 import { v } from "convex/values";
 import { Id } from "./_generated/dataModel";
+import { getMetadataProvider, MediaType, NormalizedTitle } from "./metadataProviders";
+import { isListDeckSource } from "./listDecks";
 
-// Category to TMDB genre ID mapping
-const CATEGORY_TO_GENRE_ID: Record<string, string | null> = {
-  popular: null,
-  action: "28",
-  adventure: "12",
-  animation: "16",
-  comedy: "35",
-  crime: "80",
-  documentary: "99",
-  drama: "18",
-  family: "10751",
-  fantasy: "14",
-  history: "36",
-  horror: "27",
-  music: "10402",
-  mystery: "9648",
-  romance: "10749",
-  "sci-fi": "878",
-  thriller: "53",
-  war: "10752",
-  western: "37",
-};
-
-interface TMDBMovie {
-  id: number;
-  title: string;
-  overview: string;
-  poster_path: string | null;
-  release_date: string;
-  genre_ids: number[];
+// Subset of /movie/{id} and /tv/{id} with append_to_response=watch/providers,credits
+interface TMDBDetails {
+  overview?: string;
+  poster_path?: string | null;
+  genres?: Array<{ id: number }>;
+  vote_average?: number;
+  runtime?: number | null; // Movies
+  number_of_seasons?: number; // TV
+  episode_run_time?: number[]; // TV
+  created_by?: Array<{ name: string }>; // TV
+  credits?: {
+    cast?: Array<{ name: string; order?: number }>;
+    crew?: Array<{ name: string; job: string }>;
+  };
+  "watch/providers"?: {
+    results?: Record<string, unknown>;
+  };
 }
 
-interface TMDBResponse {
-  results: TMDBMovie[];
-  page: number;
-  total_pages: number;
-  total_results: number;
+// Normalized title plus the details filled in from TMDB before it is stored
+interface DeckCandidate extends NormalizedTitle {
+  director?: string;
+  cast?: string[];
+  streamingPlatforms?: unknown;
+  numberOfSeasons?: number;
+  episodeRuntime?: number;
+  detailsUpdatedAt?: number;
+}
+
+interface PopulateRoomResult {
+  movieIds: Id<"movies">[]; // Movies added by this run
+  targetCount: number; // Deck size the room asked for
+  totalCount: number; // Movies linked to the room after this run
+  isShort: boolean; // True when the provider ran out of matches before the deck was full
+}
+
+// Deck size used when the room does not specify a movie count
+const DEFAULT_MOVIE_COUNT = 25;
+
+// Upper bound on provider pages fetched per run (about 20 results per page)
+const MAX_DISCOVER_PAGES = 10;
+
+// Parallel TMDB detail requests per run, kept low to stay under TMDB rate limits
+const DETAILS_CONCURRENCY = 4;
+const DETAILS_MAX_ATTEMPTS = 3;
+const DETAILS_RETRY_BASE_DELAY_MS = 500;
+
+// Stored details (and streaming providers) older than this are fetched again
+const PROVIDER_DATA_MAX_AGE_MS =
+  Number(process.env.PROVIDER_DATA_MAX_AGE_HOURS ?? 24) * 60 * 60 * 1000;
+
+// Number of cast members kept per title
+const MAX_CAST_MEMBERS = 5;
+
+// Run `fn` over `items` with at most `limit` calls in flight, preserving order
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Retry with exponential backoff (500ms, 1s, ...) between attempts
+async function withRetry<T>(fn: () => Promise<T>, attempts: number): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error;
+      if (attempt < attempts - 1) {
+        await new Promise((resolve) => setTimeout(resolve, DETAILS_RETRY_BASE_DELAY_MS * 2 ** attempt));
+      }
+    }
+  }
+  throw lastError;
+}
+
+// Fill runtime, credits, rating and watch providers from the TMDB details endpoint.
+// Titles whose stored details are still fresh are returned with the stored values.
+async function enrichCandidate(
+  ctx: ActionCtx,
+  candidate: DeckCandidate,
+  mediaType: MediaType
+): Promise<DeckCandidate> {
+  const stored = await ctx.runQuery(api.votingMovies.getMovieByTmdbId, {
+    tmdbId: candidate.tmdbId,
+    mediaType,
+  });
+
+  if (stored?.detailsUpdatedAt && Date.now() - stored.detailsUpdatedAt < PROVIDER_DATA_MAX_AGE_MS) {
+    return { ...candidate, streamingPlatforms: stored.streamingPlatforms };
+  }
+
+  try {
+    const details: TMDBDetails = await withRetry(
+      () =>
+        mediaType === "tv"
+          ? ctx.runAction(api.tmdb.getTVDetails, { tvId: candidate.tmdbId })
+          : ctx.runAction(api.tmdb.getMovieDetails, { movieId: candidate.tmdbId }),
+      DETAILS_MAX_ATTEMPTS
+    );
+
+    const director =
+      details.credits?.crew?.find((member) => member.job === "Director")?.name ??
+      details.created_by?.[0]?.name;
+
+    const cast = (details.credits?.cast ?? [])
+      .slice()
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+      .slice(0, MAX_CAST_MEMBERS)
+      .map((member) => member.name);
+
+    return {
+      ...candidate,
+      // Trakt results carry no artwork or TMDB genres, so take them from the details
+      overview: candidate.overview ?? (details.overview || undefined),
+      posterPath: candidate.posterPath ?? (details.poster_path || undefined),
+      genreIds: candidate.genreIds ?? details.genres?.map((genre) => genre.id),
+      voteAverage: details.vote_average ?? candidate.voteAverage,
+      runtime: details.runtime ?? candidate.runtime,
+      director,
+      cast: cast.length > 0 ? cast : undefined,
+      streamingPlatforms: details["watch/providers"]?.results,
+      numberOfSeasons: details.number_of_seasons,
+      episodeRuntime: details.episode_run_time?.[0],
+      detailsUpdatedAt: Date.now(),
+    };
+  } catch (error) {
+    // The card is still usable without details, so keep the discover data
+    console.error(`[populateRoomWithMovies] Error fetching details for "${candidate.title}":`, error);
+    return candidate;
+  }
+}
+
+// Whether TMDB lists the title as included with a subscription to one of the given services
+function isStreamingOn(candidate: DeckCandidate, providerIds: number[], watchRegion?: string): boolean {
+  const regions = (candidate.streamingPlatforms ?? {}) as Record<
+    string,
+    { flatrate?: Array<{ provider_id: number }> }
+  >;
+  const offers = watchRegion ? [regions[watchRegion]] : Object.values(regions);
+
+  return offers.some((offer) =>
+    offer?.flatrate?.some((entry) => providerIds.includes(entry.provider_id))
+  );
 }
 
 export const populateRoomWithMovies = action({
   args: {
     roomId: v.id("rooms"),
-    category: v.string(),
   },
-  handler: async (ctx, args): Promise<Id<"movies">[]> => {
-    console.log(`[populateRoomWithMovies] Starting for room ${args.roomId} with category "${args.category}"`);
+  handler: async (ctx, args): Promise<PopulateRoomResult> => {
+    const room = await ctx.runQuery(api.rooms.getRoom, { roomId: args.roomId });
 
-    // Map category to genre ID
-    const genreId = CATEGORY_TO_GENRE_ID[args.category.toLowerCase()];
+    if (!room) {
+      throw new Error("Room not found");
+    }
 
-    if (genreId === undefined) {
-      console.error(`[populateRoomWithMovies] Unknown category: ${args.category}`);
-      throw new Error(`Unknown category: ${args.category}`);
+    const targetCount = room.movieCount ?? DEFAULT_MOVIE_COUNT;
+    const mediaType = room.mediaType ?? "movie";
+
+    // Titles already in the deck are skipped, which also makes repeat calls a no-op once full
+    const existingMovies = await ctx.runQuery(api.votingMovies.getRoomMovies, { roomId: args.roomId });
+
+    // Nothing to fetch: the participants nominate the deck, or it's built from their own lists
+    if (room.nominationsOnly || isListDeckSource(room.deckSource)) {
+      return { movieIds: [], targetCount: 0, totalCount: existingMovies.length, isShort: false };
+    }
+    const seenTmdbIds = new Set(existingMovies.map((movie) => movie.tmdbId));
+    const remainingCount = targetCount - existingMovies.length;
+
+    if (remainingCount <= 0) {
+      console.log(`[populateRoomWithMovies] Room ${args.roomId} already has ${existingMovies.length} movies`);
+      return { movieIds: [], targetCount, totalCount: existingMovies.length, isShort: false };
     }
 
-    console.log(`[populateRoomWithMovies] Category "${args.category}" mapped to genre ID: ${genreId || "none (popular)"}`);
+    // Watched and previously rejected titles are skipped like duplicates, so the
+    // paging below backfills from later pages to keep the deck size
+    const excludedTmdbIds = await ctx.runQuery(internal.deckExclusions.getDeckExclusions, {
+      roomId: args.roomId,
+    });
+    for (const tmdbId of excludedTmdbIds) {
+      seenTmdbIds.add(tmdbId);
+    }
+
+    const provider = getMetadataProvider(room.deckSource);
+    const streamingProviderIds = room.streamingProviderIds ?? [];
+    // Sources that can't filter by streaming service are filtered here, after enrichment
+    const filterByProviders = streamingProviderIds.length > 0 && !provider.filtersByWatchProvider;
 
-    // Fetch movies from TMDB
-    const tmdbParams: {
-      page: number;
-      sortBy: string;
-      withGenres?: string;
-    } = {
+    console.log(`[populateRoomWithMovies] Starting ${mediaType} deck for room ${args.roomId} from ${provider.source} with category "${room.category}"`);
+
+    const query = {
+      mediaType,
+      category: room.category,
       page: 1,
-      sortBy: "popularity.desc",
+      streamingProviderIds,
+      watchRegion: room.watchRegion,
+      minScore: room.minScore,
     };
 
-    // Only add genre filter if not "popular"
-    if (genreId !== null) {
-      tmdbParams.withGenres = genreId;
-    }
+    // Keep paging until the deck is full, the provider runs out of results or we hit the page cap
+    const enrichedMovies: DeckCandidate[] = [];
+    let totalPages = 1;
 
-    console.log(`[populateRoomWithMovies] Fetching movies from TMDB with params:`, tmdbParams);
+    while (
+      enrichedMovies.length < remainingCount &&
+      query.page <= Math.min(totalPages, MAX_DISCOVER_PAGES)
+    ) {
+      let titles: NormalizedTitle[];
+      try {
+        const response = await provider.fetchPage(ctx, query);
+        titles = response.titles;
+        totalPages = response.totalPages;
+        console.log(`[populateRoomWithMovies] Received ${titles.length} titles from ${provider.source} page ${query.page}`);
+      } catch (error) {
+        console.error(`[populateRoomWithMovies] Error fetching from ${provider.source}:`, error);
+        if (enrichedMovies.length === 0) {
+          throw new Error(`Failed to fetch movies from ${provider.source}: ${error}`);
+        }
+        // Keep what earlier pages returned rather than failing the whole deck
+        break;
+      }
 
-    let tmdbResponse: TMDBResponse;
-    try {
-      tmdbResponse = await ctx.runAction(api.tmdb.discoverMovies, tmdbParams);
-      console.log(`[populateRoomWithMovies] Received ${tmdbResponse.results.length} movies from TMDB`);
-    } catch (error) {
-      console.error(`[populateRoomWithMovies] Error fetching from TMDB:`, error);
-      throw new Error(`Failed to fetch movies from TMDB: ${error}`);
+      const candidates: DeckCandidate[] = [];
+      for (const title of titles) {
+        if (enrichedMovies.length + candidates.length >= remainingCount) break;
+        if (seenTmdbIds.has(title.tmdbId)) continue;
+
+        seenTmdbIds.add(title.tmdbId);
+        candidates.push(title);
+      }
+
+      // Pull runtime, credits, rating and watch providers for every card
+      const enriched = await mapWithConcurrency(candidates, DETAILS_CONCURRENCY, (candidate) =>
+        enrichCandidate(ctx, candidate, mediaType)
+      );
+
+      for (const candidate of enriched) {
+        if (filterByProviders && !isStreamingOn(candidate, streamingProviderIds, room.watchRegion)) {
+          continue;
+        }
+        enrichedMovies.push(candidate);
+      }
+
+      query.page++;
     }
 
-    // Take first 25 movies
-    const moviesToAdd = tmdbResponse.results.slice(0, 25);
-    console.log(`[populateRoomWithMovies] Processing ${moviesToAdd.length} movies`);
+    console.log(`[populateRoomWithMovies] Processing ${enrichedMovies.length} movies`);
 
     // Add each movie to the database
     const movieIds: Id<"movies">[] = [];
 
-    for (let i = 0; i < moviesToAdd.length; i++) {
-      const movie = moviesToAdd[i];
-      console.log(`[populateRoomWithMovies] Adding movie ${i + 1}/${moviesToAdd.length}: "${movie.title}" (TMDB ID: ${movie.id})`);
+    for (let i = 0; i < enrichedMovies.length; i++) {
+      const movie = enrichedMovies[i];
+      console.log(`[populateRoomWithMovies] Adding ${mediaType} ${i + 1}/${enrichedMovies.length}: "${movie.title}" (TMDB ID: ${movie.tmdbId})`);
 
       try {
         const movieId = await ctx.runMutation(api.votingMovies.addMovie, {
-          tmdbId: movie.id,
-          title: movie.title,
-          overview: movie.overview || undefined,
-          posterPath: movie.poster_path || undefined,
-          releaseDate: movie.release_date || undefined,
-          genreIds: movie.genre_ids || undefined,
+          ...movie,
+          mediaType,
         });
 
         movieIds.push(movieId);
@@ -119,14 +293,18 @@ export const populateRoomWithMovies = action({
 
     console.log(`[populateRoomWithMovies] Completed. Added ${movieIds.length} movies to the database`);
 
-    // Link all movies to the room
+    // Link all movies to the room. Another backfill may have topped the deck up
+    // meanwhile, so the mutation skips duplicates and stops at the target size.
+    let totalCount = existingMovies.length;
     if (movieIds.length > 0) {
       console.log(`[populateRoomWithMovies] Linking ${movieIds.length} movies to room ${args.roomId}`);
       try {
-        await ctx.runMutation(api.votingMovies.linkMoviesToRoom, {
+        const { deckSize } = await ctx.runMutation(api.votingMovies.linkMoviesToRoom, {
           roomId: args.roomId,
           movieIds: movieIds,
+          maxDeckSize: targetCount,
         });
+        totalCount = deckSize;
         console.log(`[populateRoomWithMovies] Successfully linked movies to room`);
       } catch (error) {
         console.error(`[populateRoomWithMovies] Error linking movies to room:`, error);
@@ -134,6 +312,35 @@ export const populateRoomWithMovies = action({
       }
     }
 
-    return movieIds;
+    const isShort = totalCount < targetCount;
+
+    if (isShort) {
+      console.warn(`[populateRoomWithMovies] Only found ${totalCount}/${targetCount} movies matching the room filters`);
+    }
+
+    return { movieIds, targetCount, totalCount, isShort };
+  },
+});
+
+// Nominate a title picked from search (tmdb.searchMulti). It gets the same
+// details as a deck card before it's stored and added to the room's deck.
+export const nominateTitle = action({
+  args: {
+    roomId: v.id("rooms"),
+    tmdbId: v.number(),
+    mediaType: v.union(v.literal("movie"), v.literal("tv")),
+    title: v.string(),
+    overview: v.optional(v.string()),
+    posterPath: v.optional(v.string()),
+    releaseDate: v.optional(v.string()),
+    genreIds: v.optional(v.array(v.number())),
+    voteAverage: v.optional(v.number()),
+  },
+  handler: async (ctx, { roomId, ...title }): Promise<{ nominationsLeft: number }> => {
+    const movie = await enrichCandidate(ctx, title, title.mediaType);
+    const movieId = await ctx.runMutation(api.votingMovies.addMovie, movie);
+
+    const { nominationsLeft } = await ctx.runMutation(api.votingMovies.nominateMovie, { roomId, movieId });
+    return { nominationsLeft };
   },
 });
@@ -1,19 +1,194 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query, MutationCtx } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { displayNameOf, getCallerId, normalizeDisplayName, requireCallerId, requireParticipant } from "./participants";
+import { showSharedCard } from "./sharedCard";
+import { getCountedParticipants, getParticipantActivity, updateInactiveParticipants } from "./presence";
+import { freezeResults } from "./roomResults";
+import { buildListDeck, buildsDeckOnStart, isListDeckSource } from "./listDecks";
+import { pruneExcludedTitles } from "./deckExclusions";
+import { orderDeckByTaste } from "./tasteProfiles";
+
+// Statuses in which a room can still be joined (lobby or voting)
+const OPEN_STATUSES = ["lobby", "voting", "active"] as const;
+
+export function isRoomOpen(room: Doc<"rooms">): boolean {
+  return (OPEN_STATUSES as readonly string[]).includes(room.status);
+}
+
+// Whether votes can be cast ("active" is the pre-lobby equivalent of "voting")
+export function isVotingStarted(room: Doc<"rooms">): boolean {
+  return room.status === "voting" || room.status === "active";
+}
+
+// Load a room and check the signed-in caller is its host
+async function requireHost(ctx: MutationCtx, roomId: Id<"rooms">, action: string) {
+  const participantId = await requireCallerId(ctx);
+
+  const room = await ctx.db.get(roomId);
+  if (!room) {
+    throw new Error("Room not found");
+  }
+
+  if (room.hostId !== participantId) {
+    throw new Error(`Only the host can ${action}`);
+  }
+
+  return room;
+}
+
+// Reject joins the host has shut out (locked room or kicked participant)
+function checkJoinAllowed(room: Doc<"rooms">, participantId: string) {
+  if (room.removedParticipantIds?.includes(participantId)) {
+    throw new Error("You were removed from this room");
+  }
+
+  if (room.isLocked) {
+    throw new Error("Room is locked");
+  }
+}
 
 // Helper function to generate a random 4-digit room code
 function generateRoomCode(): string {
   return Math.floor(1000 + Math.random() * 9000).toString();
 }
 
+// Mark a room completed. Every completion path goes through here so the
+// reason (and winner, when there is one) is recorded consistently and the
+// results are frozen, which also tells every client to move on to Results.
+export async function completeRoom(
+  ctx: MutationCtx,
+  room: Doc<"rooms">,
+  completion: {
+    reason: NonNullable<Doc<"rooms">["completionReason"]>;
+    winningMovieId?: Id<"movies">;
+  }
+) {
+  if (room.status === "completed") {
+    return;
+  }
+
+  await ctx.db.patch(room._id, {
+    status: "completed",
+    completionReason: completion.reason,
+    winningMovieId: completion.winningMovieId,
+    completedAt: Date.now(),
+  });
+
+  await freezeResults(ctx, room, completion);
+
+  // Learn from the votes before the retention job deletes them
+  await ctx.scheduler.runAfter(0, internal.tasteProfiles.learnFromRoom, { roomId: room._id });
+}
+
+// Complete the room once every participant it's waiting for has finished.
+// Called whenever someone finishes or the set of counted participants changes.
+export async function completeIfEveryoneFinished(ctx: MutationCtx, roomId: Id<"rooms">) {
+  const room = await ctx.db.get(roomId);
+  if (!room || !isVotingStarted(room)) {
+    return;
+  }
+
+  const participants = await getCountedParticipants(ctx, roomId);
+  if (participants.length > 0 && participants.every((p) => p.votingCompletedAt !== undefined)) {
+    await completeRoom(ctx, room, { reason: "all_complete" });
+  }
+}
+
 // Create a new room
 export const createRoom = mutation({
   args: {
     category: v.string(),
-    hostId: v.string(),
+    hostName: v.string(), // Display name; the host is the signed-in caller
     maxParticipants: v.optional(v.number()),
+    streamingProviderIds: v.optional(v.array(v.number())),
+    watchRegion: v.optional(v.string()),
+    movieCount: v.optional(v.number()),
+    minScore: v.optional(v.number()),
+    mediaType: v.optional(v.union(v.literal("movie"), v.literal("tv"))),
+    deckSource: v.optional(
+      v.union(
+        v.literal("tmdb_discover"),
+        v.literal("trakt_trending"),
+        v.literal("trakt_popular"),
+        v.literal("collection"),
+        v.literal("watchlists_any"),
+        v.literal("watchlists_all")
+      )
+    ),
+    deckCollectionId: v.optional(v.id("collections")),
+    votingMode: v.optional(
+      v.union(v.literal("like_dislike"), v.literal("superlike"), v.literal("stars"))
+    ),
+    runoffSize: v.optional(v.number()),
+    vetoesPerParticipant: v.optional(v.number()),
+    anonymousVetoes: v.optional(v.boolean()),
+    endOnUnanimousMatch: v.optional(v.boolean()),
+    votingPace: v.optional(v.union(v.literal("independent"), v.literal("synchronized"))),
+    cardSeconds: v.optional(v.number()),
+    votingMinutes: v.optional(v.number()),
+    nominationsPerParticipant: v.optional(v.number()),
+    nominationsOnly: v.optional(v.boolean()),
+    excludeWatched: v.optional(v.union(v.literal("any"), v.literal("all"))),
+    excludeDislikedRooms: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    const hostId = await requireCallerId(ctx);
+    const hostName = normalizeDisplayName(args.hostName);
+
+    if (args.movieCount !== undefined && (args.movieCount < 1 || args.movieCount > 100)) {
+      throw new Error("Movie count must be between 1 and 100");
+    }
+
+    if (args.minScore !== undefined && (args.minScore < 0 || args.minScore > 10)) {
+      throw new Error("Minimum score must be between 0 and 10");
+    }
+
+    if (args.runoffSize !== undefined && (args.runoffSize < 2 || args.runoffSize > 10)) {
+      throw new Error("Runoff size must be between 2 and 10");
+    }
+
+    if (
+      args.vetoesPerParticipant !== undefined &&
+      (!Number.isInteger(args.vetoesPerParticipant) || args.vetoesPerParticipant < 0 || args.vetoesPerParticipant > 5)
+    ) {
+      throw new Error("Vetoes per participant must be a whole number between 0 and 5");
+    }
+
+    if (args.cardSeconds !== undefined && (args.cardSeconds < 5 || args.cardSeconds > 300)) {
+      throw new Error("Card timer must be between 5 and 300 seconds");
+    }
+
+    if (args.votingMinutes !== undefined && (args.votingMinutes < 1 || args.votingMinutes > 180)) {
+      throw new Error("Voting time limit must be between 1 and 180 minutes");
+    }
+
+    if (
+      args.nominationsPerParticipant !== undefined &&
+      (!Number.isInteger(args.nominationsPerParticipant) || args.nominationsPerParticipant < 1 || args.nominationsPerParticipant > 5)
+    ) {
+      throw new Error("Nominations per participant must be a whole number between 1 and 5");
+    }
+
+    if (args.nominationsOnly && !args.nominationsPerParticipant) {
+      throw new Error("A nominations-only deck needs nominations turned on");
+    }
+
+    if (
+      args.excludeDislikedRooms !== undefined &&
+      (!Number.isInteger(args.excludeDislikedRooms) || args.excludeDislikedRooms < 1 || args.excludeDislikedRooms > 10)
+    ) {
+      throw new Error("Rejected titles can only be skipped from the last 1 to 10 rooms");
+    }
+
+    if (args.deckSource === "collection") {
+      const collection = args.deckCollectionId ? await ctx.db.get(args.deckCollectionId) : null;
+      if (!collection || (!collection.isPublic && collection.userId !== hostId)) {
+        throw new Error("Collection not found");
+      }
+    }
+
     // Generate a unique room code
     let code = generateRoomCode();
     let attempts = 0;
@@ -41,20 +216,48 @@ export const createRoom = mutation({
     const roomId = await ctx.db.insert("rooms", {
       code,
       category: args.category,
-      hostId: args.hostId,
-      status: "active",
+      hostId,
+      status: "lobby",
       expiresAt,
       maxParticipants: args.maxParticipants ?? 10,
       createdAt: now,
+      streamingProviderIds: args.streamingProviderIds,
+      watchRegion: args.watchRegion,
+      movieCount: args.movieCount,
+      minScore: args.minScore,
+      mediaType: args.mediaType,
+      deckSource: args.deckSource,
+      deckCollectionId: args.deckSource === "collection" ? args.deckCollectionId : undefined,
+      votingMode: args.votingMode,
+      runoffSize: args.runoffSize,
+      vetoesPerParticipant: args.vetoesPerParticipant,
+      anonymousVetoes: args.anonymousVetoes,
+      endOnUnanimousMatch: args.endOnUnanimousMatch,
+      votingPace: args.votingPace,
+      cardSeconds: args.cardSeconds,
+      votingMinutes: args.votingMinutes,
+      nominationsPerParticipant: args.nominationsPerParticipant,
+      nominationsOnly: args.nominationsOnly,
+      excludeWatched: args.excludeWatched,
+      excludeDislikedRooms: args.excludeDislikedRooms,
     });
 
     // Add host as first participant
     await ctx.db.insert("roomParticipants", {
       roomId,
-      participantId: args.hostId,
+      participantId: hostId,
+      displayName: hostName,
       joinedAt: now,
     });
 
+    // A collection is fixed, so its deck can be built right away
+    if (args.deckSource === "collection" && !args.nominationsOnly) {
+      const room = await ctx.db.get(roomId);
+      if (room && (await buildListDeck(ctx, room)) === 0) {
+        throw new Error(`That collection has no ${args.mediaType === "tv" ? "TV shows" : "movies"}`);
+      }
+    }
+
     return { roomId, code };
   },
 });
@@ -75,7 +278,7 @@ export const getRoomByCode = query({
     }
 
     // Return room with computed expired status (don't modify in query)
-    if (room.expiresAt < Date.now() && room.status === "active") {
+    if (room.expiresAt < Date.now() && isRoomOpen(room)) {
       return { ...room, status: "expired" as const };
     }
 
@@ -96,7 +299,7 @@ export const getRoom = query({
     }
 
     // Return room with computed expired status (don't modify in query)
-    if (room.expiresAt < Date.now() && room.status === "active") {
+    if (room.expiresAt < Date.now() && isRoomOpen(room)) {
       return { ...room, status: "expired" as const };
     }
 
@@ -104,20 +307,37 @@ export const getRoom = query({
   },
 });
 
+// The deck is dealt when the room is created, before anyone else has joined, so
+// each newcomer's watched and rejected titles are pulled out of it in the lobby.
+// Provider decks are topped back up from further pages.
+async function applyDeckExclusions(ctx: MutationCtx, room: Doc<"rooms">) {
+  if (room.status !== "lobby" || (!room.excludeWatched && !room.excludeDislikedRooms)) {
+    return;
+  }
+
+  const removed = await pruneExcludedTitles(ctx, room);
+  if (removed > 0 && !room.nominationsOnly && !isListDeckSource(room.deckSource)) {
+    await ctx.scheduler.runAfter(0, api.roomSetup.populateRoomWithMovies, { roomId: room._id });
+  }
+}
+
 // Join a room
 export const joinRoom = mutation({
   args: {
     roomId: v.id("rooms"),
-    participantId: v.string(),
+    displayName: v.string(),
   },
   handler: async (ctx, args) => {
+    const participantId = await requireCallerId(ctx);
+    const displayName = normalizeDisplayName(args.displayName);
+
     const room = await ctx.db.get(args.roomId);
 
     if (!room) {
       throw new Error("Room not found");
     }
 
-    if (room.status !== "active") {
+    if (!isRoomOpen(room)) {
       throw new Error(`Room is ${room.status}`);
     }
 
@@ -130,13 +350,16 @@ export const joinRoom = mutation({
     const existingParticipant = await ctx.db
       .query("roomParticipants")
       .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
-      .filter((q) => q.eq(q.field("participantId"), args.participantId))
+      .filter((q) => q.eq(q.field("participantId"), participantId))
       .first();
 
+    // Rejoining (e.g. after an app restart) just picks up where they left off
     if (existingParticipant) {
-      throw new Error("Already joined this room");
+      return { success: true };
     }
 
+    checkJoinAllowed(room, participantId);
+
     // Check if room is full
     const participantCount = await ctx.db
       .query("roomParticipants")
@@ -151,9 +374,11 @@ export const joinRoom = mutation({
     // Add participant
     await ctx.db.insert("roomParticipants", {
       roomId: args.roomId,
-      participantId: args.participantId,
+      participantId,
+      displayName,
       joinedAt: Date.now(),
     });
+    await applyDeckExclusions(ctx, room);
 
     return { success: true };
   },
@@ -163,9 +388,12 @@ export const joinRoom = mutation({
 export const joinRoomByCode = mutation({
   args: {
     roomCode: v.string(),
-    participantId: v.string(),
+    displayName: v.string(),
   },
   handler: async (ctx, args) => {
+    const participantId = await requireCallerId(ctx);
+    const displayName = normalizeDisplayName(args.displayName);
+
     // First, find the room by code
     const room = await ctx.db
       .query("rooms")
@@ -176,7 +404,7 @@ export const joinRoomByCode = mutation({
       throw new Error("Room not found");
     }
 
-    if (room.status !== "active") {
+    if (!isRoomOpen(room)) {
       throw new Error(`Room is ${room.status}`);
     }
 
@@ -189,13 +417,16 @@ export const joinRoomByCode = mutation({
     const existingParticipant = await ctx.db
       .query("roomParticipants")
       .withIndex("by_room", (q) => q.eq("roomId", room._id))
-      .filter((q) => q.eq(q.field("participantId"), args.participantId))
+      .filter((q) => q.eq(q.field("participantId"), participantId))
       .first();
 
+    // Rejoining (e.g. after an app restart) just picks up where they left off
     if (existingParticipant) {
-      throw new Error("Already joined this room");
+      return { roomId: room._id, code: room.code };
     }
 
+    checkJoinAllowed(room, participantId);
+
     // Check if room is full
     const participantCount = await ctx.db
       .query("roomParticipants")
@@ -210,9 +441,11 @@ export const joinRoomByCode = mutation({
     // Add participant
     await ctx.db.insert("roomParticipants", {
       roomId: room._id,
-      participantId: args.participantId,
+      participantId,
+      displayName,
       joinedAt: Date.now(),
     });
+    await applyDeckExclusions(ctx, room);
 
     return { roomId: room._id, code: room.code };
   },
@@ -222,18 +455,9 @@ export const joinRoomByCode = mutation({
 export const leaveRoom = mutation({
   args: {
     roomId: v.id("rooms"),
-    participantId: v.string(),
   },
   handler: async (ctx, args) => {
-    const participant = await ctx.db
-      .query("roomParticipants")
-      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
-      .filter((q) => q.eq(q.field("participantId"), args.participantId))
-      .first();
-
-    if (!participant) {
-      throw new Error("Not a participant in this room");
-    }
+    const participant = await requireParticipant(ctx, args.roomId);
 
     await ctx.db.delete(participant._id);
 
@@ -243,9 +467,24 @@ export const leaveRoom = mutation({
       .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
       .collect();
 
+    const room = await ctx.db.get(args.roomId);
+
     // If no participants left, mark room as completed
     if (remainingParticipants.length === 0) {
-      await ctx.db.patch(args.roomId, { status: "completed" });
+      if (room) {
+        await completeRoom(ctx, room, { reason: "everyone_left" });
+      }
+    } else if (room && room.hostId === participant.participantId) {
+      // Hand host to whoever has been in the room longest
+      const nextHost = remainingParticipants.reduce((earliest, p) =>
+        p.joinedAt < earliest.joinedAt ? p : earliest
+      );
+      await ctx.db.patch(room._id, { hostId: nextHost.participantId });
+    }
+
+    // The participant who left may have been the last one still voting
+    if (remainingParticipants.length > 0) {
+      await completeIfEveryoneFinished(ctx, args.roomId);
     }
 
     return { success: true };
@@ -258,40 +497,428 @@ export const getParticipants = query({
     roomId: v.id("rooms"),
   },
   handler: async (ctx, args) => {
-    const participants = await ctx.db
+    const activity = await getParticipantActivity(ctx, args.roomId);
+
+    return activity.map(({ participant, presence, lastSeenAt, isCounted }) => ({
+      ...participant,
+      displayName: displayNameOf(participant),
+      presence,
+      lastSeenAt,
+      isCounted,
+    }));
+  },
+});
+
+// Get the signed-in caller's participant record in a room (null if they haven't joined)
+export const getMyParticipant = query({
+  args: {
+    roomId: v.id("rooms"),
+  },
+  handler: async (ctx, args) => {
+    const participantId = await getCallerId(ctx);
+    if (!participantId) {
+      return null;
+    }
+
+    const participant = await ctx.db
       .query("roomParticipants")
       .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .filter((q) => q.eq(q.field("participantId"), participantId))
+      .first();
+
+    if (!participant) {
+      return null;
+    }
+
+    const room = await ctx.db.get(args.roomId);
+
+    return {
+      participantId,
+      displayName: displayNameOf(participant),
+      isHost: room?.hostId === participantId,
+      votingCompletedAt: participant.votingCompletedAt ?? null,
+    };
+  },
+});
+
+// The caller's most relevant active room to resume: the preferred code when they
+// are still in it, otherwise the room they joined most recently
+export const getResumableRoom = query({
+  args: {
+    preferredCode: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const participantId = await getCallerId(ctx);
+    if (!participantId) {
+      return null;
+    }
+
+    const memberships = await ctx.db
+      .query("roomParticipants")
+      .withIndex("by_participant", (q) => q.eq("participantId", participantId))
       .collect();
 
-    return participants;
+    const now = Date.now();
+    const candidates = [];
+    for (const membership of memberships) {
+      const room = await ctx.db.get(membership.roomId);
+      if (room && isRoomOpen(room) && room.expiresAt > now) {
+        candidates.push({ room, membership });
+      }
+    }
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const match =
+      candidates.find(({ room }) => room.code === args.preferredCode) ??
+      candidates.reduce((latest, candidate) =>
+        candidate.membership.joinedAt > latest.membership.joinedAt ? candidate : latest
+      );
+
+    return {
+      roomId: match.room._id,
+      code: match.room.code,
+      displayName: displayNameOf(match.membership),
+    };
   },
 });
 
-// Mark voting as complete for a participant
-export const markVotingComplete = mutation({
+// Remove a participant from the room along with their votes (host only)
+export const removeParticipant = mutation({
   args: {
     roomId: v.id("rooms"),
-    participantId: v.string(),
+    targetParticipantId: v.string(),
   },
   handler: async (ctx, args) => {
+    const room = await requireHost(ctx, args.roomId, "remove participants");
+
+    if (args.targetParticipantId === room.hostId) {
+      throw new Error("The host can't remove themselves");
+    }
+
     const participant = await ctx.db
       .query("roomParticipants")
       .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
-      .filter((q) => q.eq(q.field("participantId"), args.participantId))
+      .filter((q) => q.eq(q.field("participantId"), args.targetParticipantId))
       .first();
 
     if (!participant) {
       throw new Error("Not a participant in this room");
     }
 
-    if (participant.votingCompletedAt) {
-      throw new Error("Voting already completed");
+    await ctx.db.delete(participant._id);
+
+    // Their votes shouldn't keep counting towards the results
+    const votes = await ctx.db
+      .query("votes")
+      .withIndex("by_participant", (q) => q.eq("participantId", args.targetParticipantId))
+      .filter((q) => q.eq(q.field("roomId"), args.roomId))
+      .collect();
+
+    for (const vote of votes) {
+      await ctx.db.delete(vote._id);
+    }
+
+    for (const table of ["vetoes", "abstentions", "rankedBallots", "tieBreakVotes", "typingStatus"] as const) {
+      const rows = await ctx.db
+        .query(table)
+        .withIndex("by_participant_and_room", (q) =>
+          q.eq("participantId", args.targetParticipantId).eq("roomId", args.roomId)
+        )
+        .collect();
+
+      for (const row of rows) {
+        await ctx.db.delete(row._id);
+      }
+    }
+
+    // Before voting starts, their nominations leave the deck with them
+    if (room.status === "lobby") {
+      const nominations = await ctx.db
+        .query("roomMovies")
+        .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+        .filter((q) => q.eq(q.field("nominatedBy"), args.targetParticipantId))
+        .collect();
+
+      for (const nomination of nominations) {
+        await ctx.db.delete(nomination._id);
+      }
     }
 
-    await ctx.db.patch(participant._id, {
-      votingCompletedAt: Date.now(),
+    await ctx.db.patch(room._id, {
+      removedParticipantIds: [...(room.removedParticipantIds ?? []), args.targetParticipantId],
     });
+    await completeIfEveryoneFinished(ctx, room._id);
 
     return { success: true };
   },
 });
+
+// Hand the host role to another participant (host only)
+export const transferHost = mutation({
+  args: {
+    roomId: v.id("rooms"),
+    newHostId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const room = await requireHost(ctx, args.roomId, "transfer host");
+
+    const newHost = await ctx.db
+      .query("roomParticipants")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .filter((q) => q.eq(q.field("participantId"), args.newHostId))
+      .first();
+
+    if (!newHost) {
+      throw new Error("Not a participant in this room");
+    }
+
+    await ctx.db.patch(room._id, { hostId: args.newHostId });
+    return { success: true };
+  },
+});
+
+// Decide whether completion waits for a participant regardless of their presence
+// (host only). `counted: null` goes back to following presence.
+export const setParticipantCounted = mutation({
+  args: {
+    roomId: v.id("rooms"),
+    targetParticipantId: v.string(),
+    counted: v.union(v.boolean(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    await requireHost(ctx, args.roomId, "change who is counted");
+
+    const participant = await ctx.db
+      .query("roomParticipants")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .filter((q) => q.eq(q.field("participantId"), args.targetParticipantId))
+      .first();
+
+    if (!participant) {
+      throw new Error("Not a participant in this room");
+    }
+
+    await ctx.db.patch(participant._id, { countInCompletion: args.counted ?? undefined });
+    await completeIfEveryoneFinished(ctx, args.roomId);
+
+    return { success: true };
+  },
+});
+
+// Lock or unlock the room to new joins (host only)
+export const setRoomLocked = mutation({
+  args: {
+    roomId: v.id("rooms"),
+    locked: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const room = await requireHost(ctx, args.roomId, "lock the room");
+
+    await ctx.db.patch(room._id, { isLocked: args.locked });
+    return { success: true };
+  },
+});
+
+// Finish now: end voting for everyone with the votes cast so far and send the
+// room to results, even if some participants haven't finished (host only)
+export const closeVoting = mutation({
+  args: {
+    roomId: v.id("rooms"),
+  },
+  handler: async (ctx, args) => {
+    const room = await requireHost(ctx, args.roomId, "close voting");
+
+    if (!isVotingStarted(room)) {
+      throw new Error(`Room is ${room.status}`);
+    }
+
+    await completeRoom(ctx, room, { reason: "host_closed" });
+    return { success: true };
+  },
+});
+
+// Mark the caller ready (or not) in the lobby
+export const setReady = mutation({
+  args: {
+    roomId: v.id("rooms"),
+    ready: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const participant = await requireParticipant(ctx, args.roomId);
+
+    await ctx.db.patch(participant._id, { readyAt: args.ready ? Date.now() : undefined });
+    return { success: true };
+  },
+});
+
+// Lobby ready-check: who has joined, who is ready and whether the deck has loaded
+export const getLobby = query({
+  args: {
+    roomId: v.id("rooms"),
+  },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (!room) {
+      return null;
+    }
+
+    const participants = await ctx.db
+      .query("roomParticipants")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .collect();
+
+    const firstMovie = await ctx.db
+      .query("roomMovies")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .first();
+
+    return {
+      status: room.status,
+      hostId: room.hostId,
+      isDeckReady: firstMovie !== null || buildsDeckOnStart(room),
+      deckSource: room.deckSource ?? "tmdb_discover",
+      nominationsOnly: room.nominationsOnly ?? false,
+      readyCount: participants.filter((p) => p.readyAt !== undefined).length,
+      participants: participants.map((p) => ({
+        participantId: p.participantId,
+        displayName: displayNameOf(p),
+        isReady: p.readyAt !== undefined,
+        isHost: p.participantId === room.hostId,
+      })),
+    };
+  },
+});
+
+// Switch the room from the lobby to voting for everyone at once (host only)
+export const startVoting = mutation({
+  args: {
+    roomId: v.id("rooms"),
+  },
+  handler: async (ctx, args) => {
+    const room = await requireHost(ctx, args.roomId, "start voting");
+
+    if (room.status !== "lobby") {
+      throw new Error(`Room is ${room.status}`);
+    }
+
+    // Watchlist decks cover everyone who made it into the lobby
+    if (buildsDeckOnStart(room)) {
+      await buildListDeck(ctx, room);
+    }
+
+    // Everyone's in, so deal the cards the group is most likely to agree on first
+    await orderDeckByTaste(ctx, room);
+
+    const firstMovie = await ctx.db
+      .query("roomMovies")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .first();
+
+    if (!firstMovie) {
+      if (room.nominationsOnly) {
+        throw new Error("Nobody has nominated anything yet");
+      }
+      throw new Error(
+        buildsDeckOnStart(room)
+          ? `Nothing unwatched is on ${room.deckSource === "watchlists_all" ? "all of your" : "anyone's"} watchlists`
+          : "The movie deck is still loading"
+      );
+    }
+
+    const now = Date.now();
+    const votingDeadlineAt = room.votingMinutes ? now + room.votingMinutes * 60 * 1000 : undefined;
+
+    await ctx.db.patch(room._id, { status: "voting", votingStartedAt: now, votingDeadlineAt });
+
+    if (votingDeadlineAt) {
+      await ctx.scheduler.runAt(votingDeadlineAt, internal.rooms.enforceVotingDeadline, {
+        roomId: room._id,
+      });
+    }
+
+    if (room.votingPace === "synchronized") {
+      await showSharedCard(ctx, { ...room, status: "voting" }, 0);
+    }
+
+    return { success: true };
+  },
+});
+
+// Voting time limit reached (scheduled by startVoting): anyone still voting is
+// marked complete and the room goes to results
+export const enforceVotingDeadline = internalMutation({
+  args: {
+    roomId: v.id("rooms"),
+  },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (!room || !isVotingStarted(room) || !room.votingDeadlineAt || room.votingDeadlineAt > Date.now()) {
+      return;
+    }
+
+    const stragglers = await ctx.db
+      .query("roomParticipants")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .filter((q) => q.eq(q.field("votingCompletedAt"), undefined))
+      .collect();
+
+    const now = Date.now();
+    for (const participant of stragglers) {
+      await ctx.db.patch(participant._id, { votingCompletedAt: now });
+    }
+
+    await completeRoom(ctx, room, { reason: "deadline" });
+  },
+});
+
+// Mark open rooms past their expiry as expired (run by the cleanup cron)
+export const expireRooms = internalMutation({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    let expired = 0;
+
+    for (const status of OPEN_STATUSES) {
+      const expiredRooms = await ctx.db
+        .query("rooms")
+        .withIndex("by_status_and_expires", (q) => q.eq("status", status).lt("expiresAt", now))
+        .take(args.limit ?? 200);
+
+      for (const room of expiredRooms) {
+        await ctx.db.patch(room._id, { status: "expired" });
+      }
+      expired += expiredRooms.length;
+    }
+
+    return { expired };
+  },
+});
+
+// Mark participants offline once they've been gone past the grace period, then
+// finish any room that was only waiting on them (run by the presence cron)
+export const markInactiveParticipants = internalMutation({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    let updated = 0;
+
+    for (const status of OPEN_STATUSES) {
+      const openRooms = await ctx.db
+        .query("rooms")
+        .withIndex("by_status_and_expires", (q) => q.eq("status", status).gte("expiresAt", now))
+        .take(args.limit ?? 200);
+
+      for (const room of openRooms) {
+        if (await updateInactiveParticipants(ctx, room._id)) {
+          await completeIfEveryoneFinished(ctx, room._id);
+          updated++;
+        }
+      }
+    }
+
+    return { updated };
+  },
+});
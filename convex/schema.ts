@@ -40,6 +40,7 @@ const applicationTables = {
   collectionItems: defineTable({
     collectionId: v.id("collections"),
     savedTitleId: v.id("savedTitles"),
+    followUpDueAt: v.optional(v.number()), // Movie Nights: when to ask whether it was watched
   })
     .index("by_collection", ["collectionId"])
     .index("by_saved_title", ["savedTitleId"]),
@@ -77,23 +78,164 @@ const applicationTables = {
     category: v.string(), // Movie category/genre
     hostId: v.string(), // User ID of the host
     status: v.union(
-      v.literal("active"),
+      v.literal("lobby"), // Waiting for people to join and ready up
+      v.literal("voting"), // Host has started voting
+      v.literal("active"), // Rooms created before the lobby existed; treated like "voting"
       v.literal("completed"),
       v.literal("expired")
     ),
+    votingStartedAt: v.optional(v.number()), // Timestamp the host started voting
     expiresAt: v.number(), // Timestamp
     maxParticipants: v.number(), // Default 10
     createdAt: v.number(), // Timestamp
+    streamingProviderIds: v.optional(v.array(v.number())), // TMDB watch provider IDs to restrict the deck to
+    watchRegion: v.optional(v.string()), // ISO 3166-1 country code for provider availability
+    movieCount: v.optional(v.number()), // Number of movies in the voting deck
+    minScore: v.optional(v.number()), // Minimum TMDB vote average (0-10)
+    mediaType: v.optional(v.union(v.literal("movie"), v.literal("tv"))), // Deck content, defaults to movies
+    deckSource: v.optional(
+      v.union(
+        v.literal("tmdb_discover"),
+        v.literal("trakt_trending"),
+        v.literal("trakt_popular"),
+        v.literal("collection"), // One collection's titles
+        v.literal("watchlists_any"), // Anything unwatched on any participant's list
+        v.literal("watchlists_all") // Only what's unwatched on every participant's list
+      )
+    ), // Where the deck is drawn from (missing means tmdb_discover)
+    deckCollectionId: v.optional(v.id("collections")), // Set when deckSource is "collection"
+    votingMode: v.optional(
+      v.union(v.literal("like_dislike"), v.literal("superlike"), v.literal("stars"))
+    ), // How votes are scored (missing means like_dislike)
+    runoffSize: v.optional(v.number()), // Top N titles sent to a ranked-choice runoff (missing means no runoff)
+    runoffFinalistIds: v.optional(v.array(v.id("movies"))), // Frozen when the first ballot is cast
+    runoffClosedAt: v.optional(v.number()), // Set once every counted participant has ranked, or the host closes the runoff
+    vetoesPerParticipant: v.optional(v.number()), // Vetoes each participant may spend (missing means vetoes are off)
+    anonymousVetoes: v.optional(v.boolean()), // Hide who vetoed what on the results screen
+    endOnUnanimousMatch: v.optional(v.boolean()), // End voting as soon as everyone likes the same title
+    nominationsPerParticipant: v.optional(v.number()), // Titles each participant may nominate in the lobby (missing means nominations are off)
+    nominationsOnly: v.optional(v.boolean()), // Deck is only the nominations, with no titles drawn from the deck source
+    excludeWatched: v.optional(v.union(v.literal("any"), v.literal("all"))), // Skip titles any/every participant marked watched (missing means keep them)
+    excludeDislikedRooms: v.optional(v.number()), // Skip titles the group voted down in its last N rooms (missing means keep them)
+    votingPace: v.optional(
+      v.union(v.literal("independent"), v.literal("synchronized"))
+    ), // Synchronized rooms vote on one shared card at a time (missing means independent)
+    cardSeconds: v.optional(v.number()), // Per-card time limit; an unvoted card counts as an abstention (missing means no limit)
+    votingMinutes: v.optional(v.number()), // Room-wide voting time limit, starting when the host starts voting
+    votingDeadlineAt: v.optional(v.number()), // Timestamp voting closes for everyone (set when voting starts)
+    sharedCard: v.optional(
+      v.object({
+        index: v.number(), // Position in the deck; equals the deck size once the deck is finished
+        movieId: v.optional(v.id("movies")), // Missing once the deck is finished
+        startedAt: v.number(), // Timestamp
+        endsAt: v.optional(v.number()), // Timestamp the timer advances the card
+      })
+    ), // Card everyone is voting on in a synchronized room
+    completionReason: v.optional(
+      v.union(
+        v.literal("unanimous_match"),
+        v.literal("all_complete"), // Every counted participant finished voting
+        v.literal("everyone_left"),
+        v.literal("host_closed"),
+        v.literal("deadline")
+      )
+    ), // Why the room was completed
+    winningMovieId: v.optional(v.id("movies")), // Set when completion picked a winner
+    completedAt: v.optional(v.number()), // Timestamp
+    tieBreak: v.optional(
+      v.object({
+        strategy: v.union(
+          v.literal("revote"),
+          v.literal("rating"),
+          v.literal("runtime"),
+          v.literal("coin_flip")
+        ),
+        status: v.union(v.literal("voting"), v.literal("resolved")),
+        tiedMovieIds: v.array(v.id("movies")),
+        startedAt: v.number(), // Timestamp
+        resolvedAt: v.optional(v.number()), // Timestamp
+        winningMovieId: v.optional(v.id("movies")),
+        usedCoinFlip: v.optional(v.boolean()), // True when the strategy itself ended in a tie
+      })
+    ), // Tie-break among titles sharing the top match percentage
+    isLocked: v.optional(v.boolean()), // Host has closed the room to new joins
+    removedParticipantIds: v.optional(v.array(v.string())), // Kicked by the host, can't rejoin
+    dataPurgedAt: v.optional(v.number()), // Set once the retention job has deleted the room's votes and messages
   })
     .index("by_code", ["code"])
-    .index("by_status", ["status"]),
+    .index("by_status_and_expires", ["status", "expiresAt"])
+    .index("by_purged_and_expires", ["dataPurgedAt", "expiresAt"]),
+
+  // What each user tends to like, learned from their votes when a room
+  // completes. Scores are summed vote weights (likes positive, dislikes negative).
+  tasteProfiles: defineTable({
+    userId: v.id("users"),
+    genres: v.array(v.object({ genreId: v.number(), score: v.number() })),
+    decades: v.array(v.object({ decade: v.number(), score: v.number() })), // e.g. 1990
+    people: v.array(v.object({ name: v.string(), score: v.number() })), // Directors and leading cast
+    likedRatingTotal: v.number(), // Sum of TMDB ratings of liked titles, for the preferred rating
+    likedRatingCount: v.number(),
+    votesCounted: v.number(),
+    updatedAt: v.number(), // Timestamp
+  }).index("by_user", ["userId"]),
+
+  // Results frozen when a room completes (one per room). Standings are never
+  // edited and are kept after the retention job purges the room's votes, so old
+  // picks stay viewable; only finalWinnerId follows a later runoff or tie-break.
+  roomResults: defineTable({
+    roomId: v.id("rooms"),
+    code: v.string(),
+    shareToken: v.string(), // Random, so shared results links can't be guessed
+    mediaType: v.optional(v.union(v.literal("movie"), v.literal("tv"))),
+    completionReason: v.union(
+      v.literal("unanimous_match"),
+      v.literal("all_complete"),
+      v.literal("everyone_left"),
+      v.literal("host_closed"),
+      v.literal("deadline")
+    ),
+    votingMode: v.union(v.literal("like_dislike"), v.literal("superlike"), v.literal("stars")),
+    winningMovieId: v.optional(v.id("movies")), // The completion's winner, otherwise the top standing
+    finalWinnerId: v.optional(v.id("movies")), // Set once a ranked-choice runoff or tie-break picks the winner
+    standings: v.array(
+      v.object({
+        movieId: v.id("movies"),
+        title: v.string(),
+        posterPath: v.optional(v.string()),
+        releaseDate: v.optional(v.string()),
+        positiveVotes: v.number(),
+        negativeVotes: v.number(),
+        superlikes: v.number(),
+        totalVotes: v.number(),
+        matchPercentage: v.number(), // Scored against the votes cast for the title
+      })
+    ), // Unvetoed titles with at least one vote, best first
+    vetoedMovieIds: v.array(v.id("movies")),
+    participants: v.array(
+      v.object({
+        participantId: v.string(),
+        displayName: v.string(),
+        completedVoting: v.boolean(),
+      })
+    ),
+    participantCount: v.number(), // Participants completion was waiting for
+    completedCount: v.number(), // How many of them had finished voting
+    votesCast: v.number(),
+    createdAt: v.number(), // Timestamp
+  })
+    .index("by_room", ["roomId"])
+    .index("by_share_token", ["shareToken"]),
 
   // Room participants
   roomParticipants: defineTable({
     roomId: v.id("rooms"),
-    participantId: v.string(), // User ID
+    participantId: v.string(), // Auth user ID of the (usually anonymous) signed-in user
+    displayName: v.optional(v.string()), // Name shown to others (missing on rooms created before sign-in)
     joinedAt: v.number(), // Timestamp
+    readyAt: v.optional(v.number()), // Timestamp the participant marked themselves ready in the lobby
     votingCompletedAt: v.optional(v.number()), // Timestamp when voting completed
+    countInCompletion: v.optional(v.boolean()), // Host override: always (true) or never (false) wait for them; missing follows presence
+    inactiveAt: v.optional(v.number()), // Set by the presence sweep once they've been offline past the grace period
   })
     .index("by_room", ["roomId"])
     .index("by_participant", ["participantId"]),
@@ -103,13 +245,15 @@ const applicationTables = {
     roomId: v.id("rooms"),
     movieId: v.id("movies"),
     position: v.number(), // Order in which movies should be shown
+    nominatedBy: v.optional(v.string()), // Participant ID of whoever nominated the title
   })
-    .index("by_room", ["roomId"])
+    .index("by_room", ["roomId", "position"]) // Deck order; cards can be reordered before voting starts
     .index("by_movie", ["movieId"]),
 
   // Movies in voting rooms
   movies: defineTable({
     tmdbId: v.number(),
+    mediaType: v.optional(v.union(v.literal("movie"), v.literal("tv"))), // Missing means movie
     title: v.string(),
     overview: v.optional(v.string()),
     posterPath: v.optional(v.string()),
@@ -120,6 +264,11 @@ const applicationTables = {
     runtime: v.optional(v.number()), // Runtime in minutes
     director: v.optional(v.string()), // Director name
     cast: v.optional(v.array(v.string())), // Main cast members
+    numberOfSeasons: v.optional(v.number()), // TV only
+    episodeRuntime: v.optional(v.number()), // TV only, typical episode length in minutes
+    detailsUpdatedAt: v.optional(v.number()), // Timestamp of the last TMDB details/providers fetch
+    traktId: v.optional(v.number()), // Set when the title was sourced from Trakt
+    imdbId: v.optional(v.string()),
     createdAt: v.number(), // Timestamp
   }).index("by_tmdb_id", ["tmdbId"]),
 
@@ -128,13 +277,54 @@ const applicationTables = {
     roomId: v.id("rooms"),
     movieId: v.id("movies"),
     participantId: v.string(), // User ID
-    voteType: v.union(v.literal("like"), v.literal("dislike")),
+    voteType: v.union(v.literal("like"), v.literal("dislike"), v.literal("superlike")),
+    score: v.optional(v.number()), // 1-5 stars, only in "stars" rooms
     votedAt: v.number(), // Timestamp
   })
     .index("by_room", ["roomId"])
     .index("by_movie", ["movieId"])
     .index("by_participant", ["participantId"]),
 
+  // Vetoes (a vetoed title is removed from the results for everyone)
+  vetoes: defineTable({
+    roomId: v.id("rooms"),
+    movieId: v.id("movies"),
+    participantId: v.string(), // User ID who spent the veto
+    createdAt: v.number(), // Timestamp
+  })
+    .index("by_room", ["roomId"])
+    .index("by_participant_and_room", ["participantId", "roomId"]),
+
+  // Cards a participant ran out of time on (they count as neither a like nor a dislike)
+  abstentions: defineTable({
+    roomId: v.id("rooms"),
+    movieId: v.id("movies"),
+    participantId: v.string(), // User ID
+    createdAt: v.number(), // Timestamp
+  })
+    .index("by_room", ["roomId"])
+    .index("by_participant_and_room", ["participantId", "roomId"]),
+
+  // Head-to-head re-vote picks during a tie-break (one per participant per room)
+  tieBreakVotes: defineTable({
+    roomId: v.id("rooms"),
+    movieId: v.id("movies"),
+    participantId: v.string(), // User ID
+    createdAt: v.number(), // Timestamp
+  })
+    .index("by_room", ["roomId"])
+    .index("by_participant_and_room", ["participantId", "roomId"]),
+
+  // Ranked-choice runoff ballots (one per participant per room)
+  rankedBallots: defineTable({
+    roomId: v.id("rooms"),
+    participantId: v.string(), // User ID
+    rankings: v.array(v.id("movies")), // Finalists, most preferred first
+    submittedAt: v.number(), // Timestamp
+  })
+    .index("by_room", ["roomId"])
+    .index("by_participant_and_room", ["participantId", "roomId"]),
+
   // Room messages (chat)
   messages: defineTable({
     roomId: v.id("rooms"),
@@ -163,7 +353,8 @@ const applicationTables = {
     createdAt: v.number(), // Timestamp
   })
     .index("by_room", ["roomId"])
-    .index("by_movie", ["movieId"]),
+    .index("by_movie", ["movieId"])
+    .index("by_created", ["createdAt"]),
 
   // Typing status (temporary, for live typing indicators)
   typingStatus: defineTable({
@@ -172,7 +363,19 @@ const applicationTables = {
     updatedAt: v.number(), // Timestamp
   })
     .index("by_room", ["roomId"])
-    .index("by_participant_and_room", ["participantId", "roomId"]),
+    .index("by_participant_and_room", ["participantId", "roomId"])
+    .index("by_updated", ["updatedAt"]),
+
+  // Cached TMDB API responses (shared across rooms, expired by TTL)
+  tmdbCache: defineTable({
+    key: v.string(), // Endpoint path plus sorted query params
+    endpoint: v.string(), // Endpoint group used to pick the TTL (e.g. "discover")
+    data: v.any(), // Raw TMDB JSON response
+    expiresAt: v.number(), // Timestamp after which the entry is stale
+    createdAt: v.number(), // Timestamp
+  })
+    .index("by_key", ["key"])
+    .index("by_expires", ["expiresAt"]),
 };
 
 export default defineSchema({
@@ -0,0 +1,185 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { getCallerId, getDisplayNames, requireCallerId } from "./participants";
+import { recordAbstention } from "./abstentions";
+import { getCountedParticipants } from "./presence";
+
+// Synchronized rooms: instead of everyone swiping through the deck at their own
+// pace, the room holds one shared card. Everyone votes on it, the live tally is
+// built from voteReactions, and the host (or the card timer) moves everyone on.
+
+// Deck in the same order as votingMovies.getRoomMovies
+async function getDeckMovieIds(ctx: QueryCtx, roomId: Id<"rooms">): Promise<Id<"movies">[]> {
+  const roomMovies = await ctx.db
+    .query("roomMovies")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .order("asc")
+    .collect();
+
+  const movies = await Promise.all(roomMovies.map((rm) => ctx.db.get(rm.movieId)));
+  return movies.filter((movie) => movie !== null).map((movie) => movie._id);
+}
+
+// Put the card at `index` in front of everyone and arm its timer
+export async function showSharedCard(ctx: MutationCtx, room: Doc<"rooms">, index: number) {
+  const deck = await getDeckMovieIds(ctx, room._id);
+  const now = Date.now();
+
+  if (index >= deck.length) {
+    // Deck finished: each client sees it has no card left and marks itself complete
+    await ctx.db.patch(room._id, { sharedCard: { index: deck.length, startedAt: now } });
+    return;
+  }
+
+  const endsAt = room.cardSeconds ? now + room.cardSeconds * 1000 : undefined;
+  await ctx.db.patch(room._id, { sharedCard: { index, movieId: deck[index], startedAt: now, endsAt } });
+
+  if (room.cardSeconds) {
+    await ctx.scheduler.runAfter(room.cardSeconds * 1000, internal.sharedCard.autoAdvanceSharedCard, {
+      roomId: room._id,
+      fromIndex: index,
+    });
+  }
+}
+
+// Move on from `fromIndex`; a stale request (the card already moved) is ignored.
+// Anyone who didn't vote on the card abstains from it.
+async function advanceFrom(ctx: MutationCtx, room: Doc<"rooms">, fromIndex: number) {
+  const movieId = room.sharedCard?.movieId;
+  if (room.status !== "voting" || room.sharedCard?.index !== fromIndex || !movieId) {
+    return false;
+  }
+
+  const participants = await ctx.db
+    .query("roomParticipants")
+    .withIndex("by_room", (q) => q.eq("roomId", room._id))
+    .collect();
+
+  for (const participant of participants) {
+    await recordAbstention(ctx, room._id, movieId, participant.participantId);
+  }
+
+  await showSharedCard(ctx, room, fromIndex + 1);
+  return true;
+}
+
+// Advance everyone to the next card (host only)
+export const advanceSharedCard = mutation({
+  args: {
+    roomId: v.id("rooms"),
+    fromIndex: v.number(), // Card the host is looking at, so a double press doesn't skip one
+  },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    if (room.hostId !== (await requireCallerId(ctx))) {
+      throw new Error("Only the host can advance the card");
+    }
+
+    if (room.votingPace !== "synchronized") {
+      throw new Error("This room isn't using synchronized voting");
+    }
+
+    const advanced = await advanceFrom(ctx, room, args.fromIndex);
+    return { advanced };
+  },
+});
+
+// Card timer ran out (scheduled by showSharedCard)
+export const autoAdvanceSharedCard = internalMutation({
+  args: {
+    roomId: v.id("rooms"),
+    fromIndex: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (!room) {
+      return;
+    }
+
+    await advanceFrom(ctx, room, args.fromIndex);
+  },
+});
+
+// The shared card with its live tally; null unless the room is synchronized and voting has started
+export const getSharedCard = query({
+  args: {
+    roomId: v.id("rooms"),
+  },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (!room || room.votingPace !== "synchronized" || !room.sharedCard) {
+      return null;
+    }
+
+    const { index, movieId, startedAt, endsAt } = room.sharedCard;
+    const deck = await getDeckMovieIds(ctx, args.roomId);
+    const participants = await getCountedParticipants(ctx, args.roomId);
+
+    if (!movieId) {
+      return {
+        index,
+        totalCards: deck.length,
+        movieId: null,
+        startedAt,
+        endsAt: null,
+        likes: 0,
+        dislikes: 0,
+        votedCount: 0,
+        totalParticipants: participants.length,
+        voterNames: [],
+        hasVoted: false,
+      };
+    }
+
+    // Latest reaction per participant since the card went up
+    const reactions = await ctx.db
+      .query("voteReactions")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .filter((q) =>
+        q.and(q.eq(q.field("movieId"), movieId), q.gte(q.field("createdAt"), startedAt))
+      )
+      .collect();
+
+    const latest = new Map<string, Doc<"voteReactions">>();
+    for (const reaction of reactions) {
+      const previous = latest.get(reaction.participantId);
+      if (!previous || previous.createdAt <= reaction.createdAt) {
+        latest.set(reaction.participantId, reaction);
+      }
+    }
+
+    const tally = [...latest.values()];
+    const displayName = await getDisplayNames(ctx, args.roomId);
+
+    const callerId = await getCallerId(ctx);
+    const myVote = callerId
+      ? await ctx.db
+          .query("votes")
+          .withIndex("by_participant", (q) => q.eq("participantId", callerId))
+          .filter((q) =>
+            q.and(q.eq(q.field("roomId"), args.roomId), q.eq(q.field("movieId"), movieId))
+          )
+          .first()
+      : null;
+
+    return {
+      index,
+      totalCards: deck.length,
+      movieId,
+      startedAt,
+      endsAt: endsAt ?? null,
+      likes: tally.filter((reaction) => reaction.reaction === "like").length,
+      dislikes: tally.filter((reaction) => reaction.reaction === "dislike").length,
+      votedCount: tally.length,
+      totalParticipants: participants.length,
+      voterNames: tally.map((reaction) => displayName(reaction.participantId)),
+      hasVoted: myVote !== null,
+    };
+  },
+});
@@ -0,0 +1,142 @@
+import { v } from "convex/values";
+import { internalMutation, MutationCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { decadeOf, interleaveForVariety, peopleOf, predictGroupScore, toTaste, voteWeight } from "./tasteScoring";
+
+// Taste profiles: each participant's votes are folded into their profile when a
+// room completes, before the retention job deletes them. When the next room they
+// are in starts voting, its deck is reordered so titles the whole group is likely
+// to agree on come first, with some random picks mixed in for variety.
+
+// People kept per profile, strongest opinions first
+const MAX_PEOPLE = 100;
+
+function addTo<K>(scores: Map<K, number>, key: K, weight: number) {
+  scores.set(key, (scores.get(key) ?? 0) + weight);
+}
+
+// Fold every participant's votes in a completed room into their taste profile
+export const learnFromRoom = internalMutation({
+  args: {
+    roomId: v.id("rooms"),
+  },
+  handler: async (ctx, args) => {
+    const votes = await ctx.db
+      .query("votes")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .collect();
+
+    const votesByParticipant = new Map<string, Doc<"votes">[]>();
+    for (const vote of votes) {
+      const participantVotes = votesByParticipant.get(vote.participantId) ?? [];
+      participantVotes.push(vote);
+      votesByParticipant.set(vote.participantId, participantVotes);
+    }
+
+    for (const [participantId, participantVotes] of votesByParticipant) {
+      const userId = ctx.db.normalizeId("users", participantId);
+      if (!userId) continue;
+
+      const profile = await ctx.db
+        .query("tasteProfiles")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .first();
+
+      const genres = new Map(profile?.genres.map((entry) => [entry.genreId, entry.score] as const));
+      const decades = new Map(profile?.decades.map((entry) => [entry.decade, entry.score] as const));
+      const people = new Map(profile?.people.map((entry) => [entry.name, entry.score] as const));
+      let likedRatingTotal = profile?.likedRatingTotal ?? 0;
+      let likedRatingCount = profile?.likedRatingCount ?? 0;
+
+      for (const vote of participantVotes) {
+        const movie = await ctx.db.get(vote.movieId);
+        if (!movie) continue;
+
+        const weight = voteWeight(vote);
+        for (const genreId of movie.genreIds ?? []) {
+          addTo(genres, genreId, weight);
+        }
+        const decade = decadeOf(movie);
+        if (decade !== null) {
+          addTo(decades, decade, weight);
+        }
+        for (const name of peopleOf(movie)) {
+          addTo(people, name, weight);
+        }
+
+        if (weight > 0 && movie.voteAverage !== undefined) {
+          likedRatingTotal += movie.voteAverage;
+          likedRatingCount++;
+        }
+      }
+
+      const fields = {
+        genres: [...genres].map(([genreId, score]) => ({ genreId, score })),
+        decades: [...decades].map(([decade, score]) => ({ decade, score })),
+        people: [...people]
+          .sort(([, a], [, b]) => Math.abs(b) - Math.abs(a))
+          .slice(0, MAX_PEOPLE)
+          .map(([name, score]) => ({ name, score })),
+        likedRatingTotal,
+        likedRatingCount,
+        votesCounted: (profile?.votesCounted ?? 0) + participantVotes.length,
+        updatedAt: Date.now(),
+      };
+
+      if (profile) {
+        await ctx.db.patch(profile._id, fields);
+      } else {
+        await ctx.db.insert("tasteProfiles", { userId, ...fields });
+      }
+    }
+  },
+});
+
+// Reorder the room's deck for the people in it: best group prediction first,
+// with some random picks mixed in (see interleaveForVariety). Leaves the deck
+// alone when nobody has a profile yet.
+export async function orderDeckByTaste(ctx: MutationCtx, room: Doc<"rooms">) {
+  const participants = await ctx.db
+    .query("roomParticipants")
+    .withIndex("by_room", (q) => q.eq("roomId", room._id))
+    .collect();
+
+  const tastes = [];
+  for (const participant of participants) {
+    const userId = ctx.db.normalizeId("users", participant.participantId);
+    if (!userId) continue;
+
+    const profile = await ctx.db
+      .query("tasteProfiles")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .first();
+    if (profile && profile.votesCounted > 0) {
+      tastes.push(toTaste(profile));
+    }
+  }
+
+  if (tastes.length === 0) {
+    return;
+  }
+
+  const deck = await ctx.db
+    .query("roomMovies")
+    .withIndex("by_room", (q) => q.eq("roomId", room._id))
+    .collect();
+
+  const scored = [];
+  for (const link of deck) {
+    const movie = await ctx.db.get(link.movieId);
+    scored.push({ link, score: movie ? predictGroupScore(tastes, movie) : 0 });
+  }
+  scored.sort((a, b) => b.score - a.score);
+
+  // Reuse the deck's existing positions, just in a new order
+  const ordered = interleaveForVariety(scored);
+  for (let i = 0; i < deck.length; i++) {
+    const { link } = ordered[i];
+    if (link.position !== deck[i].position) {
+      await ctx.db.patch(link._id, { position: deck[i].position });
+    }
+  }
+}
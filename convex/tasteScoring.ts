@@ -0,0 +1,98 @@
+import { Doc } from "./_generated/dataModel";
+import { MAX_STARS, SUPERLIKE_WEIGHT } from "./voteScoring";
+
+// How taste profiles turn votes into preferences and predict what a group will
+// like, kept apart from the mutations in tasteProfiles.ts.
+
+// Leading cast members counted alongside the director
+const CAST_COUNTED = 3;
+
+// Every Nth card is drawn at random from the rest of the deck
+export const VARIETY_INTERVAL = 4;
+
+// Score lost per TMDB rating point below the ratings someone usually likes
+const RATING_PENALTY = 0.1;
+
+// How much disagreement within the group pushes a title back
+const DISAGREEMENT_PENALTY = 0.5;
+
+// Likes count positive and dislikes negative; star votes scale from -1 to 1
+export function voteWeight(vote: Doc<"votes">): number {
+  if (vote.score !== undefined) {
+    const midpoint = (MAX_STARS + 1) / 2;
+    return (vote.score - midpoint) / (MAX_STARS - midpoint);
+  }
+  if (vote.voteType === "superlike") return SUPERLIKE_WEIGHT;
+  return vote.voteType === "like" ? 1 : -1;
+}
+
+export function decadeOf(movie: Doc<"movies">): number | null {
+  const year = Number(movie.releaseDate?.slice(0, 4));
+  return year ? Math.floor(year / 10) * 10 : null;
+}
+
+export function peopleOf(movie: Doc<"movies">): string[] {
+  return [movie.director, ...(movie.cast ?? []).slice(0, CAST_COUNTED)].filter(
+    (name): name is string => !!name
+  );
+}
+
+// A profile in lookup form
+export function toTaste(profile: Doc<"tasteProfiles">) {
+  return {
+    genres: new Map(profile.genres.map((entry) => [entry.genreId, entry.score] as const)),
+    decades: new Map(profile.decades.map((entry) => [entry.decade, entry.score] as const)),
+    people: new Map(profile.people.map((entry) => [entry.name, entry.score] as const)),
+    preferredRating: profile.likedRatingCount > 0 ? profile.likedRatingTotal / profile.likedRatingCount : null,
+    votesCounted: profile.votesCounted,
+  };
+}
+
+export type Taste = ReturnType<typeof toTaste>;
+
+// How much someone is expected to like a title; positive means likely to like it
+export function predictScore(taste: Taste, movie: Doc<"movies">): number {
+  let score = 0;
+  for (const genreId of movie.genreIds ?? []) {
+    score += taste.genres.get(genreId) ?? 0;
+  }
+
+  const decade = decadeOf(movie);
+  if (decade !== null) {
+    score += taste.decades.get(decade) ?? 0;
+  }
+
+  for (const name of peopleOf(movie)) {
+    score += taste.people.get(name) ?? 0;
+  }
+
+  // Normalize so long voting histories don't outweigh everyone else's
+  score /= Math.max(taste.votesCounted, 1);
+
+  if (taste.preferredRating !== null && movie.voteAverage !== undefined) {
+    score -= Math.max(0, taste.preferredRating - movie.voteAverage) * RATING_PENALTY;
+  }
+
+  return score;
+}
+
+// Average prediction across the group, less how much they'd disagree
+export function predictGroupScore(tastes: Taste[], movie: Doc<"movies">): number {
+  const scores = tastes.map((taste) => predictScore(taste, movie));
+  const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  const variance = scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / scores.length;
+  return mean - Math.sqrt(variance) * DISAGREEMENT_PENALTY;
+}
+
+// Deal cards best first, except every VARIETY_INTERVAL-th card, which is drawn
+// at random from whatever is left
+export function interleaveForVariety<T>(sorted: T[], random: () => number = Math.random): T[] {
+  const remaining = [...sorted];
+  const dealt: T[] = [];
+  while (remaining.length > 0) {
+    const pick =
+      (dealt.length + 1) % VARIETY_INTERVAL === 0 ? Math.floor(random() * remaining.length) : 0;
+    dealt.push(...remaining.splice(pick, 1));
+  }
+  return dealt;
+}
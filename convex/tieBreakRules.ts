@@ -0,0 +1,52 @@
+import { Doc } from "./_generated/dataModel";
+
+// How a tie-break settles on a winner, kept apart from the mutations in tieBreaks.ts.
+
+export type TieBreakStrategy = NonNullable<Doc<"rooms">["tieBreak"]>["strategy"];
+
+export function pickRandom<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+// Keep the candidates with the best value; missing values never win
+export function keepBest(
+  movies: Doc<"movies">[],
+  valueOf: (movie: Doc<"movies">) => number | undefined,
+  better: (a: number, b: number) => boolean
+): Doc<"movies">[] {
+  let best: number | undefined;
+  for (const movie of movies) {
+    const value = valueOf(movie);
+    if (value !== undefined && (best === undefined || better(value, best))) {
+      best = value;
+    }
+  }
+
+  if (best === undefined) return movies;
+  return movies.filter((movie) => valueOf(movie) === best);
+}
+
+// Resolve a tie-break by metadata; anything still tied falls back to a coin flip.
+// Null when none of the tied titles are left to pick from.
+export function resolveByMetadata(strategy: TieBreakStrategy, movies: Doc<"movies">[]) {
+  if (movies.length === 0) {
+    return null;
+  }
+
+  let candidates = movies;
+
+  if (strategy === "rating") {
+    candidates = keepBest(movies, (movie) => movie.voteAverage, (a, b) => a > b);
+  } else if (strategy === "runtime") {
+    candidates = keepBest(
+      movies,
+      (movie) => (movie.mediaType === "tv" ? movie.episodeRuntime : movie.runtime),
+      (a, b) => a < b
+    );
+  }
+
+  return {
+    winningMovieId: pickRandom(candidates)._id,
+    usedCoinFlip: strategy === "coin_flip" || candidates.length > 1,
+  };
+}
@@ -0,0 +1,264 @@
+import { v } from "convex/values";
+import { mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { rankMovies } from "./voteScoring";
+import { getVetoedMovieIds } from "./votes";
+import { getCallerId, requireCallerId, requireParticipant } from "./participants";
+import { getCountedParticipants } from "./presence";
+import { recordFinalWinner } from "./roomResults";
+import { pickRandom, resolveByMetadata } from "./tieBreakRules";
+
+// Unvetoed movies sharing the top match percentage (same ranking as getDetailedResults)
+async function getTiedMovieIds(ctx: QueryCtx, roomId: Id<"rooms">, mode: Doc<"rooms">["votingMode"]) {
+  const vetoedMovieIds = await getVetoedMovieIds(ctx, roomId);
+  const votes = (
+    await ctx.db
+      .query("votes")
+      .withIndex("by_room", (q) => q.eq("roomId", roomId))
+      .collect()
+  ).filter((vote) => !vetoedMovieIds.has(vote.movieId));
+
+  const standings = rankMovies(votes, mode ?? "like_dislike").filter(
+    (standing) => standing.positiveVotes > 0
+  );
+
+  if (standings.length < 2 || standings[0].score !== standings[1].score) {
+    return [];
+  }
+
+  return standings
+    .filter((standing) => standing.score === standings[0].score)
+    .map((standing) => standing.movieId);
+}
+
+// Close a re-vote: most picks wins, a tied re-vote is settled by a coin flip
+async function finishRevote(ctx: MutationCtx, room: Doc<"rooms">) {
+  const tieBreak = room.tieBreak;
+  if (!tieBreak || tieBreak.status !== "voting") return;
+
+  const picks = await ctx.db
+    .query("tieBreakVotes")
+    .withIndex("by_room", (q) => q.eq("roomId", room._id))
+    .collect();
+
+  const counts = new Map(tieBreak.tiedMovieIds.map((movieId) => [movieId, 0]));
+  for (const pick of picks) {
+    counts.set(pick.movieId, (counts.get(pick.movieId) ?? 0) + 1);
+  }
+
+  const topCount = Math.max(...counts.values());
+  const leaders = tieBreak.tiedMovieIds.filter((movieId) => counts.get(movieId) === topCount);
+
+  await ctx.db.patch(room._id, {
+    tieBreak: {
+      ...tieBreak,
+      status: "resolved",
+      resolvedAt: Date.now(),
+      winningMovieId: pickRandom(leaders),
+      usedCoinFlip: leaders.length > 1,
+    },
+  });
+  await recordFinalWinner(ctx, room._id);
+}
+
+// Start a tie-break among the titles tied for first (host only)
+export const startTieBreak = mutation({
+  args: {
+    roomId: v.id("rooms"),
+    strategy: v.union(
+      v.literal("revote"),
+      v.literal("rating"),
+      v.literal("runtime"),
+      v.literal("coin_flip")
+    ),
+  },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    if (room.hostId !== (await requireCallerId(ctx))) {
+      throw new Error("Only the host can break a tie");
+    }
+
+    if (room.tieBreak?.status === "voting") {
+      throw new Error("A tie-break is already in progress");
+    }
+    if (room.tieBreak?.status === "resolved") {
+      throw new Error("The tie has already been broken");
+    }
+
+    // The standings have to be final, or later votes could undo the tie
+    if (room.status !== "completed") {
+      const participants = await getCountedParticipants(ctx, args.roomId);
+      if (participants.length === 0 || participants.some((p) => p.votingCompletedAt === undefined)) {
+        throw new Error("Everyone needs to finish voting before breaking a tie");
+      }
+    }
+
+    const tiedMovieIds = await getTiedMovieIds(ctx, args.roomId, room.votingMode);
+    if (tiedMovieIds.length < 2) {
+      throw new Error("There is no tie to break");
+    }
+
+    const startedAt = Date.now();
+
+    if (args.strategy === "revote") {
+      // Clear picks from any earlier re-vote in this room
+      const oldPicks = await ctx.db
+        .query("tieBreakVotes")
+        .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+        .collect();
+      for (const pick of oldPicks) {
+        await ctx.db.delete(pick._id);
+      }
+
+      await ctx.db.patch(room._id, {
+        tieBreak: { strategy: "revote", status: "voting", tiedMovieIds, startedAt },
+      });
+      return { status: "voting" as const };
+    }
+
+    const movies = (await Promise.all(tiedMovieIds.map((movieId) => ctx.db.get(movieId)))).filter(
+      (movie): movie is Doc<"movies"> => movie !== null
+    );
+    const outcome = resolveByMetadata(args.strategy, movies);
+    if (!outcome) {
+      throw new Error("The tied titles are no longer available");
+    }
+
+    await ctx.db.patch(room._id, {
+      tieBreak: {
+        strategy: args.strategy,
+        status: "resolved",
+        tiedMovieIds,
+        startedAt,
+        resolvedAt: startedAt,
+        ...outcome,
+      },
+    });
+    await recordFinalWinner(ctx, room._id);
+
+    return { status: "resolved" as const, winningMovieId: outcome.winningMovieId };
+  },
+});
+
+// Pick one of the tied titles during a re-vote; the last pick closes the re-vote
+export const submitTieBreakVote = mutation({
+  args: {
+    roomId: v.id("rooms"),
+    movieId: v.id("movies"),
+  },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    if (room.tieBreak?.status !== "voting") {
+      throw new Error("No tie-break vote in progress");
+    }
+
+    if (!room.tieBreak.tiedMovieIds.includes(args.movieId)) {
+      throw new Error("That title is not part of the tie-break");
+    }
+
+    const { participantId } = await requireParticipant(ctx, args.roomId);
+
+    const participants = await getCountedParticipants(ctx, args.roomId);
+
+    const existing = await ctx.db
+      .query("tieBreakVotes")
+      .withIndex("by_participant_and_room", (q) =>
+        q.eq("participantId", participantId).eq("roomId", args.roomId)
+      )
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { movieId: args.movieId, createdAt: Date.now() });
+    } else {
+      await ctx.db.insert("tieBreakVotes", {
+        roomId: args.roomId,
+        movieId: args.movieId,
+        participantId,
+        createdAt: Date.now(),
+      });
+    }
+
+    const picks = await ctx.db
+      .query("tieBreakVotes")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .collect();
+
+    if (picks.length >= participants.length) {
+      await finishRevote(ctx, room);
+    }
+
+    return { success: true };
+  },
+});
+
+// Close a re-vote early with the picks cast so far (host only)
+export const closeTieBreakVote = mutation({
+  args: {
+    roomId: v.id("rooms"),
+  },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    if (room.hostId !== (await requireCallerId(ctx))) {
+      throw new Error("Only the host can close the tie-break vote");
+    }
+
+    await finishRevote(ctx, room);
+    return { success: true };
+  },
+});
+
+// Get the current tie (if any), the tie-break state and re-vote tallies
+export const getTieBreak = query({
+  args: {
+    roomId: v.id("rooms"),
+  },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (!room) {
+      return null;
+    }
+
+    // Once started, the tie is frozen; before that it follows the live results
+    const tiedMovieIds =
+      room.tieBreak?.tiedMovieIds ?? (await getTiedMovieIds(ctx, args.roomId, room.votingMode));
+
+    if (tiedMovieIds.length < 2) {
+      return null;
+    }
+
+    const tiedMovies = (await Promise.all(tiedMovieIds.map((movieId) => ctx.db.get(movieId)))).filter(
+      (movie): movie is Doc<"movies"> => movie !== null
+    );
+
+    const picks = await ctx.db
+      .query("tieBreakVotes")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .collect();
+
+    const callerId = await getCallerId(ctx);
+
+    return {
+      tiedMovies,
+      tieBreak: room.tieBreak ?? null,
+      isHost: callerId !== null && room.hostId === callerId,
+      tallies: tiedMovieIds.map((movieId) => ({
+        movieId,
+        votes: picks.filter((pick) => pick.movieId === movieId).length,
+      })),
+      picksCast: picks.length,
+      myPick: picks.find((pick) => pick.participantId === callerId)?.movieId ?? null,
+    };
+  },
+});
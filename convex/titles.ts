@@ -1,44 +1,56 @@
-import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { ObjectType, v } from "convex/values";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
 import { getAuthUserId } from "@convex-dev/auth/server";
 
+const savedTitleFields = {
+  tmdbId: v.number(),
+  mediaType: v.union(v.literal("movie"), v.literal("tv")),
+  title: v.string(),
+  posterPath: v.optional(v.string()),
+  releaseDate: v.optional(v.string()),
+  streamingPlatforms: v.optional(v.any()),
+  director: v.optional(v.string()),
+  actors: v.optional(v.array(v.string())),
+};
+
+// Save a title to the user's list, or return the existing save
+export async function saveTitleForUser(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  args: ObjectType<typeof savedTitleFields>
+): Promise<Id<"savedTitles">> {
+  // Check if already saved
+  const existing = await ctx.db
+    .query("savedTitles")
+    .withIndex("by_user_and_tmdb", (q) =>
+      q.eq("userId", userId).eq("tmdbId", args.tmdbId)
+    )
+    .first();
+
+  if (existing) return existing._id;
+
+  return await ctx.db.insert("savedTitles", {
+    userId,
+    tmdbId: args.tmdbId,
+    mediaType: args.mediaType,
+    title: args.title,
+    posterPath: args.posterPath,
+    releaseDate: args.releaseDate,
+    isWatched: false,
+    streamingPlatforms: args.streamingPlatforms,
+    director: args.director,
+    actors: args.actors,
+  });
+}
+
 export const saveTitle = mutation({
-  args: {
-    tmdbId: v.number(),
-    mediaType: v.union(v.literal("movie"), v.literal("tv")),
-    title: v.string(),
-    posterPath: v.optional(v.string()),
-    releaseDate: v.optional(v.string()),
-    streamingPlatforms: v.optional(v.any()),
-    director: v.optional(v.string()),
-    actors: v.optional(v.array(v.string())),
-  },
+  args: savedTitleFields,
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
     if (!userId) throw new Error("Not authenticated");
 
-    // Check if already saved
-    const existing = await ctx.db
-      .query("savedTitles")
-      .withIndex("by_user_and_tmdb", (q) =>
-        q.eq("userId", userId).eq("tmdbId", args.tmdbId)
-      )
-      .first();
-
-    if (existing) return existing._id;
-
-    return await ctx.db.insert("savedTitles", {
-      userId,
-      tmdbId: args.tmdbId,
-      mediaType: args.mediaType,
-      title: args.title,
-      posterPath: args.posterPath,
-      releaseDate: args.releaseDate,
-      isWatched: false,
-      streamingPlatforms: args.streamingPlatforms,
-      director: args.director,
-      actors: args.actors,
-    });
+    return await saveTitleForUser(ctx, userId, args);
   },
 });
 
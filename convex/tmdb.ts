@@ -1,11 +1,69 @@
 "use node";
 
-import { action } from "./_generated/server";
+import { action, ActionCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { v } from "convex/values";
 
 const TMDB_API_TOKEN = process.env.TMDB_API_TOKEN;
 const TMDB_BASE_URL = "https://api.themoviedb.org/3";
 
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long each kind of TMDB response stays in the tmdbCache table
+const CACHE_TTL_MS = {
+  genres: 24 * HOUR_MS,
+  watchProviders: 24 * HOUR_MS,
+  discover: HOUR_MS,
+  search: HOUR_MS,
+  details: 6 * HOUR_MS,
+  videos: 24 * HOUR_MS,
+} as const;
+
+type CacheEndpoint = keyof typeof CACHE_TTL_MS;
+
+// Fetch a TMDB endpoint, reading through the shared tmdbCache table
+async function fetchTMDB(
+  ctx: ActionCtx,
+  endpoint: CacheEndpoint,
+  path: string,
+  params?: URLSearchParams
+): Promise<any> {
+  const query = params ? new URLSearchParams([...params.entries()].sort()).toString() : "";
+  const url = query ? `${path}?${query}` : path;
+
+  const cached = await ctx.runQuery(internal.tmdbCache.get, { key: url });
+  if (cached !== null) {
+    return cached;
+  }
+
+  const response = await fetch(`${TMDB_BASE_URL}${url}`, {
+    headers: {
+      Authorization: `Bearer ${TMDB_API_TOKEN}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`TMDB API error: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+
+  try {
+    await ctx.runMutation(internal.tmdbCache.set, {
+      key: url,
+      endpoint,
+      data,
+      ttlMs: CACHE_TTL_MS[endpoint],
+    });
+  } catch (error) {
+    // A failed cache write shouldn't fail the request
+    console.warn(`Failed to cache TMDB response for ${url}:`, error);
+  }
+
+  return data;
+}
+
 export const discoverMovies = action({
   args: {
     page: v.optional(v.number()),
@@ -25,18 +83,7 @@ export const discoverMovies = action({
       sort_by: args.sortBy || "popularity.desc",
     });
 
-    const response = await fetch(`${TMDB_BASE_URL}/discover/movie?${params}`, {
-      headers: {
-        Authorization: `Bearer ${TMDB_API_TOKEN}`,
-        "Content-Type": "application/json",
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`TMDB API error: ${response.statusText}`);
-    }
-
-    return await response.json();
+    return await fetchTMDB(ctx, "discover", "/discover/movie", params);
   },
 });
 
@@ -59,18 +106,7 @@ export const discoverTV = action({
       sort_by: args.sortBy || "popularity.desc",
     });
 
-    const response = await fetch(`${TMDB_BASE_URL}/discover/tv?${params}`, {
-      headers: {
-        Authorization: `Bearer ${TMDB_API_TOKEN}`,
-        "Content-Type": "application/json",
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`TMDB API error: ${response.statusText}`);
-    }
-
-    return await response.json();
+    return await fetchTMDB(ctx, "discover", "/discover/tv", params);
   },
 });
 
@@ -81,127 +117,48 @@ export const searchMulti = action({
   },
   handler: async (ctx, args) => {
     const params = new URLSearchParams({
-      query: args.query,
+      query: args.query.trim().toLowerCase(),
       page: String(args.page || 1),
     });
 
-    const response = await fetch(`${TMDB_BASE_URL}/search/multi?${params}`, {
-      headers: {
-        Authorization: `Bearer ${TMDB_API_TOKEN}`,
-        "Content-Type": "application/json",
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`TMDB API error: ${response.statusText}`);
-    }
-
-    return await response.json();
+    return await fetchTMDB(ctx, "search", "/search/multi", params);
   },
 });
 
 export const getMovieDetails = action({
   args: { movieId: v.number() },
   handler: async (ctx, args) => {
-    const response = await fetch(
-      `${TMDB_BASE_URL}/movie/${args.movieId}?append_to_response=watch/providers,credits`,
-      {
-        headers: {
-          Authorization: `Bearer ${TMDB_API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`TMDB API error: ${response.statusText}`);
-    }
-
-    return await response.json();
+    const params = new URLSearchParams({ append_to_response: "watch/providers,credits" });
+    return await fetchTMDB(ctx, "details", `/movie/${args.movieId}`, params);
   },
 });
 
 export const getTVDetails = action({
   args: { tvId: v.number() },
   handler: async (ctx, args) => {
-    const response = await fetch(
-      `${TMDB_BASE_URL}/tv/${args.tvId}?append_to_response=watch/providers,credits`,
-      {
-        headers: {
-          Authorization: `Bearer ${TMDB_API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`TMDB API error: ${response.statusText}`);
-    }
-
-    return await response.json();
+    const params = new URLSearchParams({ append_to_response: "watch/providers,credits" });
+    return await fetchTMDB(ctx, "details", `/tv/${args.tvId}`, params);
   },
 });
 
 export const getGenres = action({
   args: { mediaType: v.union(v.literal("movie"), v.literal("tv")) },
   handler: async (ctx, args) => {
-    const response = await fetch(
-      `${TMDB_BASE_URL}/genre/${args.mediaType}/list`,
-      {
-        headers: {
-          Authorization: `Bearer ${TMDB_API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`TMDB API error: ${response.statusText}`);
-    }
-
-    return await response.json();
+    return await fetchTMDB(ctx, "genres", `/genre/${args.mediaType}/list`);
   },
 });
 
 export const getWatchProviders = action({
   args: { mediaType: v.union(v.literal("movie"), v.literal("tv")) },
   handler: async (ctx, args) => {
-    const response = await fetch(
-      `${TMDB_BASE_URL}/watch/providers/${args.mediaType}`,
-      {
-        headers: {
-          Authorization: `Bearer ${TMDB_API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`TMDB API error: ${response.statusText}`);
-    }
-
-    return await response.json();
+    return await fetchTMDB(ctx, "watchProviders", `/watch/providers/${args.mediaType}`);
   },
 });
 
 export const getMovieVideos = action({
   args: { movieId: v.number() },
   handler: async (ctx, args) => {
-    const response = await fetch(
-      `${TMDB_BASE_URL}/movie/${args.movieId}/videos`,
-      {
-        headers: {
-          Authorization: `Bearer ${TMDB_API_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`TMDB API error: ${response.statusText}`);
-    }
-
-    const data = await response.json();
+    const data = await fetchTMDB(ctx, "videos", `/movie/${args.movieId}/videos`);
 
     // Filter for YouTube trailers only and sort by official trailers first
     const trailers = data.results
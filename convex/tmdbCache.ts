@@ -0,0 +1,77 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+
+// Look up a cached TMDB response; returns null when missing or expired
+export const get = internalQuery({
+  args: { key: v.string() },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db
+      .query("tmdbCache")
+      .withIndex("by_key", (q) => q.eq("key", args.key))
+      .unique();
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    return entry.data;
+  },
+});
+
+// Store (or replace) a cached TMDB response
+export const set = internalMutation({
+  args: {
+    key: v.string(),
+    endpoint: v.string(),
+    data: v.any(),
+    ttlMs: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("tmdbCache")
+      .withIndex("by_key", (q) => q.eq("key", args.key))
+      .unique();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        data: args.data,
+        expiresAt: now + args.ttlMs,
+        createdAt: now,
+      });
+      return;
+    }
+
+    await ctx.db.insert("tmdbCache", {
+      key: args.key,
+      endpoint: args.endpoint,
+      data: args.data,
+      expiresAt: now + args.ttlMs,
+      createdAt: now,
+    });
+  },
+});
+
+// Delete expired entries a batch at a time
+export const purgeExpired = internalMutation({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? 100;
+    const expired = await ctx.db
+      .query("tmdbCache")
+      .withIndex("by_expires", (q) => q.lt("expiresAt", Date.now()))
+      .take(limit);
+
+    for (const entry of expired) {
+      await ctx.db.delete(entry._id);
+    }
+
+    // A full batch means there may be more entries due
+    if (expired.length === limit) {
+      await ctx.scheduler.runAfter(0, internal.tmdbCache.purgeExpired, { limit });
+    }
+
+    return expired.length;
+  },
+});
@@ -230,3 +230,70 @@ export const getPopularMovies = action({
     }
   },
 });
+
+/**
+ * Get a page of trending or popular movies/shows from Trakt.tv
+ * Unwraps trending entries so both lists return bare movie/show objects
+ */
+export const getTitleList = action({
+  args: {
+    list: v.union(v.literal("trending"), v.literal("popular")),
+    mediaType: v.union(v.literal("movie"), v.literal("tv")),
+    page: v.optional(v.number()),
+    limit: v.optional(v.number()),
+    genres: v.optional(v.string()), // Comma-separated Trakt genre slugs
+    ratings: v.optional(v.string()), // Trakt rating range, e.g. "60-100"
+  },
+  handler: async (ctx, args) => {
+    const clientId = process.env.TRAKT_CLIENT_ID;
+
+    if (!clientId) {
+      throw new Error("TRAKT_CLIENT_ID not configured");
+    }
+
+    try {
+      const params = new URLSearchParams({ extended: "full" });
+      if (args.page) params.append("page", args.page.toString());
+      if (args.limit) params.append("limit", args.limit.toString());
+      if (args.genres) params.append("genres", args.genres);
+      if (args.ratings) params.append("ratings", args.ratings);
+
+      const path = args.mediaType === "tv" ? "shows" : "movies";
+      const response = await fetch(
+        `https://api.trakt.tv/${path}/${args.list}?${params.toString()}`,
+        {
+          headers: {
+            "Content-Type": "application/json",
+            "trakt-api-version": "2",
+            "trakt-api-key": clientId,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        if (response.status === 429) {
+          throw new Error("Rate limit exceeded. Please try again later.");
+        }
+        throw new Error(`Trakt API error: ${response.status} ${response.statusText}`);
+      }
+
+      const pagination = {
+        page: parseInt(response.headers.get("X-Pagination-Page") || "1"),
+        limit: parseInt(response.headers.get("X-Pagination-Limit") || "10"),
+        pageCount: parseInt(response.headers.get("X-Pagination-Page-Count") || "1"),
+        itemCount: parseInt(response.headers.get("X-Pagination-Item-Count") || "0"),
+      };
+
+      const data = await response.json();
+      const key = args.mediaType === "tv" ? "show" : "movie";
+
+      return {
+        results: data.map((item: any) => (args.list === "trending" ? item[key] : item)),
+        pagination,
+      };
+    } catch (error) {
+      console.error(`Error fetching ${args.list} titles from Trakt.tv:`, error);
+      throw error;
+    }
+  },
+});
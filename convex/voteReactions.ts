@@ -1,20 +1,22 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { getDisplayNames, requireParticipant } from "./participants";
 
 // Record a vote reaction (like/dislike) for real-time display
 export const recordVoteReaction = mutation({
   args: {
     roomId: v.id("rooms"),
     movieId: v.id("movies"),
-    participantId: v.string(),
     reaction: v.union(v.literal("like"), v.literal("dislike")),
   },
   handler: async (ctx, args) => {
-    // Store the reaction with a short TTL (will be cleaned up after 5 seconds)
+    const { participantId } = await requireParticipant(ctx, args.roomId);
+
+    // Store the reaction (cleaned up by the reactions cron)
     const reactionId = await ctx.db.insert("voteReactions", {
       roomId: args.roomId,
       movieId: args.movieId,
-      participantId: args.participantId,
+      participantId,
       reaction: args.reaction,
       createdAt: Date.now(),
     });
@@ -37,12 +39,15 @@ export const getRecentReactions = query({
       .filter((q) => q.gte(q.field("createdAt"), fiveSecondsAgo))
       .collect();
 
-    // Enrich reactions with movie titles
+    const displayName = await getDisplayNames(ctx, args.roomId);
+
+    // Enrich reactions with movie titles and who reacted
     const enrichedReactions = await Promise.all(
       reactions.map(async (reaction) => {
         const movie = await ctx.db.get(reaction.movieId);
         return {
           ...reaction,
+          displayName: displayName(reaction.participantId),
           movieTitle: movie?.title || "Unknown Movie",
         };
       })
@@ -52,16 +57,17 @@ export const getRecentReactions = query({
   },
 });
 
-// Cleanup old reactions (called periodically)
-export const cleanupOldReactions = mutation({
-  args: {},
-  handler: async (ctx) => {
-    const fiveSecondsAgo = Date.now() - 5000;
+// Cleanup old reactions (run by the cleanup cron). Kept well past the 5 second
+// overlay window because synchronized rooms tally the shared card from them.
+export const cleanupOldReactions = internalMutation({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const thirtyMinutesAgo = Date.now() - 30 * 60 * 1000;
 
     const oldReactions = await ctx.db
       .query("voteReactions")
-      .filter((q) => q.lt(q.field("createdAt"), fiveSecondsAgo))
-      .collect();
+      .withIndex("by_created", (q) => q.lt("createdAt", thirtyMinutesAgo))
+      .take(args.limit ?? 500);
 
     // Delete old reactions
     for (const reaction of oldReactions) {
@@ -0,0 +1,133 @@
+import { Doc, Id } from "./_generated/dataModel";
+
+// Scoring shared by the results queries, the ranked-choice runoff and deck exclusions.
+
+export type VotingMode = "like_dislike" | "superlike" | "stars";
+
+// A super like counts as this many likes
+export const SUPERLIKE_WEIGHT = 2;
+
+export const MAX_STARS = 5;
+
+// Whether a vote counts in the movie's favour
+export function isPositiveVote(vote: Doc<"votes">): boolean {
+  return vote.voteType !== "dislike";
+}
+
+// Score a movie's votes as a 0-100 percentage under the room's voting mode:
+// - like_dislike: share of likes
+// - superlike: likes plus weighted super likes, out of every vote being a super like
+// - stars: average star rating out of five
+export function scoreVotes(votes: Doc<"votes">[], mode: VotingMode): number {
+  if (votes.length === 0) return 0;
+
+  switch (mode) {
+    case "superlike": {
+      const points = votes.reduce(
+        (sum, vote) =>
+          sum + (vote.voteType === "superlike" ? SUPERLIKE_WEIGHT : vote.voteType === "like" ? 1 : 0),
+        0
+      );
+      return Math.round((points / (votes.length * SUPERLIKE_WEIGHT)) * 100);
+    }
+    case "stars": {
+      // Votes cast with a like/dislike only are treated as 5 and 1 stars
+      const total = votes.reduce(
+        (sum, vote) => sum + (vote.score ?? (isPositiveVote(vote) ? MAX_STARS : 1)),
+        0
+      );
+      return Math.round((total / (votes.length * MAX_STARS)) * 100);
+    }
+    default: {
+      const likes = votes.filter(isPositiveVote).length;
+      return Math.round((likes / votes.length) * 100);
+    }
+  }
+}
+
+// Movies ranked by score, then by number of positive votes
+export function rankMovies(
+  votes: Doc<"votes">[],
+  mode: VotingMode
+): Array<{ movieId: Id<"movies">; score: number; positiveVotes: number }> {
+  const byMovie = new Map<Id<"movies">, Doc<"votes">[]>();
+  for (const vote of votes) {
+    const movieVotes = byMovie.get(vote.movieId) ?? [];
+    movieVotes.push(vote);
+    byMovie.set(vote.movieId, movieVotes);
+  }
+
+  return Array.from(byMovie.entries())
+    .map(([movieId, movieVotes]) => ({
+      movieId,
+      score: scoreVotes(movieVotes, mode),
+      positiveVotes: movieVotes.filter(isPositiveVote).length,
+    }))
+    .sort((a, b) => b.score - a.score || b.positiveVotes - a.positiveVotes);
+}
+
+export interface RunoffRound {
+  tallies: Array<{ movieId: Id<"movies">; votes: number }>;
+  eliminatedId: Id<"movies"> | null;
+}
+
+// Instant-runoff count: each round tallies every ballot's highest-ranked remaining
+// finalist. A finalist with a majority of the live ballots wins; otherwise the
+// finalist with the fewest votes is eliminated (ties knock out the lower seed).
+export function runInstantRunoff(
+  finalistIds: Id<"movies">[],
+  ballots: Id<"movies">[][]
+): { winnerId: Id<"movies"> | null; rounds: RunoffRound[] } {
+  const remaining = [...finalistIds];
+  const rounds: RunoffRound[] = [];
+
+  if (ballots.length === 0 || remaining.length === 0) {
+    return { winnerId: null, rounds };
+  }
+
+  while (remaining.length > 0) {
+    const counts = new Map<Id<"movies">, number>(remaining.map((id) => [id, 0]));
+    let liveBallots = 0;
+
+    for (const ballot of ballots) {
+      const choice = ballot.find((id) => counts.has(id));
+      if (choice) {
+        counts.set(choice, (counts.get(choice) ?? 0) + 1);
+        liveBallots++;
+      }
+    }
+
+    const tallies = remaining.map((movieId) => ({ movieId, votes: counts.get(movieId) ?? 0 }));
+    const leader = tallies.reduce((best, tally) => (tally.votes > best.votes ? tally : best));
+
+    if (remaining.length === 1 || leader.votes * 2 > liveBallots) {
+      rounds.push({ tallies, eliminatedId: null });
+      return { winnerId: leader.movieId, rounds };
+    }
+
+    // Scan from the lowest seed so ties eliminate the weaker first-round finisher
+    let loser = tallies[tallies.length - 1];
+    for (let i = tallies.length - 1; i >= 0; i--) {
+      if (tallies[i].votes < loser.votes) loser = tallies[i];
+    }
+
+    rounds.push({ tallies, eliminatedId: loser.movieId });
+    remaining.splice(remaining.indexOf(loser.movieId), 1);
+  }
+
+  return { winnerId: null, rounds };
+}
+
+// Movies a group voted down on balance: each like or super like from a group
+// member counts +1 and each dislike -1, and anything below zero is rejected.
+// Votes from people outside the group are ignored.
+export function getRejectedOnBalance(votes: Doc<"votes">[], group: Set<string>): Id<"movies">[] {
+  const balance = new Map<Id<"movies">, number>();
+  for (const vote of votes) {
+    if (!group.has(vote.participantId)) continue;
+    const delta = vote.voteType === "dislike" ? -1 : 1;
+    balance.set(vote.movieId, (balance.get(vote.movieId) ?? 0) + delta);
+  }
+
+  return [...balance].filter(([, total]) => total < 0).map(([movieId]) => movieId);
+}
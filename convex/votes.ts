@@ -1,13 +1,98 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { isPositiveVote, MAX_STARS, scoreVotes } from "./voteScoring";
+import { completeIfEveryoneFinished, completeRoom, isRoomOpen, isVotingStarted } from "./rooms";
+import { displayNameOf, getCallerId, getDisplayNames, requireParticipant } from "./participants";
+import { getAbstainedMovieIds, recordAbstention } from "./abstentions";
+import { getCountedParticipants, getParticipantActivity } from "./presence";
+
+// IDs of every movie vetoed in a room
+export async function getVetoedMovieIds(ctx: QueryCtx, roomId: Id<"rooms">): Promise<Set<Id<"movies">>> {
+  const vetoes = await ctx.db
+    .query("vetoes")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .collect();
+
+  return new Set(vetoes.map((veto) => veto.movieId));
+}
+
+// Spend one of the participant's vetoes on a movie
+async function recordVeto(
+  ctx: MutationCtx,
+  room: Doc<"rooms">,
+  participantId: string,
+  movieId: Id<"movies">
+) {
+  const allowance = room.vetoesPerParticipant ?? 0;
+  if (allowance === 0) {
+    throw new Error("Vetoes are not enabled in this room");
+  }
+
+  const roomMovie = await ctx.db
+    .query("roomMovies")
+    .withIndex("by_room", (q) => q.eq("roomId", room._id))
+    .filter((q) => q.eq(q.field("movieId"), movieId))
+    .first();
+
+  if (!roomMovie) {
+    throw new Error("Movie is not in this room");
+  }
+
+  const myVetoes = await ctx.db
+    .query("vetoes")
+    .withIndex("by_participant_and_room", (q) =>
+      q.eq("participantId", participantId).eq("roomId", room._id)
+    )
+    .collect();
+
+  if (myVetoes.some((veto) => veto.movieId === movieId)) {
+    return;
+  }
+
+  if (myVetoes.length >= allowance) {
+    throw new Error("No vetoes left");
+  }
+
+  await ctx.db.insert("vetoes", {
+    roomId: room._id,
+    movieId,
+    participantId,
+    createdAt: Date.now(),
+  });
+}
+
+// Whether every counted participant has cast a positive vote for the movie (and nobody vetoed it)
+async function isUnanimousMatch(ctx: QueryCtx, roomId: Id<"rooms">, movieId: Id<"movies">) {
+  const participants = await getCountedParticipants(ctx, roomId);
+
+  if (participants.length === 0) {
+    return false;
+  }
+
+  const movieVotes = await ctx.db
+    .query("votes")
+    .withIndex("by_movie", (q) => q.eq("movieId", movieId))
+    .filter((q) => q.eq(q.field("roomId"), roomId))
+    .collect();
+
+  const likedBy = new Set(movieVotes.filter(isPositiveVote).map((vote) => vote.participantId));
+  if (!participants.every((participant) => likedBy.has(participant.participantId))) {
+    return false;
+  }
+
+  const vetoedMovieIds = await getVetoedMovieIds(ctx, roomId);
+  return !vetoedMovieIds.has(movieId);
+}
 
 // Submit a vote for a movie
 export const submitVote = mutation({
   args: {
     roomId: v.id("rooms"),
     movieId: v.id("movies"),
-    participantId: v.string(),
-    voteType: v.union(v.literal("like"), v.literal("dislike")),
+    voteType: v.union(v.literal("like"), v.literal("dislike"), v.literal("superlike")),
+    score: v.optional(v.number()), // 1-5 stars, "stars" rooms only
+    veto: v.optional(v.boolean()), // Also spend a veto on this movie
   },
   handler: async (ctx, args) => {
     // Check if room exists and is active
@@ -16,7 +101,11 @@ export const submitVote = mutation({
       throw new Error("Room not found");
     }
 
-    if (room.status !== "active") {
+    if (room.status === "lobby") {
+      throw new Error("Voting hasn't started yet");
+    }
+
+    if (!isVotingStarted(room)) {
       throw new Error(`Room is ${room.status}`);
     }
 
@@ -25,23 +114,47 @@ export const submitVote = mutation({
       throw new Error("Room has expired");
     }
 
-    // Check if participant is in the room
-    const participant = await ctx.db
-      .query("roomParticipants")
-      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
-      .filter((q) => q.eq(q.field("participantId"), args.participantId))
-      .first();
+    const votingMode = room.votingMode ?? "like_dislike";
+
+    if (args.voteType === "superlike" && votingMode !== "superlike") {
+      throw new Error("Super likes are not enabled in this room");
+    }
+
+    if (args.score !== undefined) {
+      if (votingMode !== "stars") {
+        throw new Error("Star ratings are not enabled in this room");
+      }
+      if (!Number.isInteger(args.score) || args.score < 1 || args.score > MAX_STARS) {
+        throw new Error(`Score must be a whole number between 1 and ${MAX_STARS}`);
+      }
+    }
 
-    if (!participant) {
-      throw new Error("Not a participant in this room");
+    if (args.veto && (args.voteType !== "dislike" || args.score !== undefined)) {
+      throw new Error("A veto must be cast as a dislike");
     }
 
+    // Star ratings also record a like/dislike so like-based views keep working
+    const voteType =
+      args.score !== undefined ? (args.score >= 3 ? "like" : "dislike") : args.voteType;
+
+    // Votes are always cast as the signed-in caller
+    const { participantId } = await requireParticipant(ctx, args.roomId);
+
     // Check if movie exists
     const movie = await ctx.db.get(args.movieId);
     if (!movie) {
       throw new Error("Movie not found");
     }
 
+    // Synchronized rooms only take votes on the card everyone is looking at
+    if (room.votingPace === "synchronized" && room.sharedCard?.movieId !== args.movieId) {
+      throw new Error("Voting has moved on to another card");
+    }
+
+    if (args.veto) {
+      await recordVeto(ctx, room, participantId, args.movieId);
+    }
+
     // Check if participant already voted for this movie
     const existingVote = await ctx.db
       .query("votes")
@@ -49,30 +162,67 @@ export const submitVote = mutation({
       .filter((q) =>
         q.and(
           q.eq(q.field("movieId"), args.movieId),
-          q.eq(q.field("participantId"), args.participantId)
+          q.eq(q.field("participantId"), participantId)
         )
       )
       .first();
 
+    let voteId: Id<"votes">;
+    const updated = existingVote !== null;
+
     if (existingVote) {
       // Update existing vote
       await ctx.db.patch(existingVote._id, {
-        voteType: args.voteType,
+        voteType,
+        score: args.score,
+        votedAt: Date.now(),
+      });
+      voteId = existingVote._id;
+    } else {
+      // Create new vote
+      voteId = await ctx.db.insert("votes", {
+        roomId: args.roomId,
+        movieId: args.movieId,
+        participantId,
+        voteType,
+        score: args.score,
         votedAt: Date.now(),
       });
-      return { voteId: existingVote._id, updated: true };
     }
 
-    // Create new vote
-    const voteId = await ctx.db.insert("votes", {
-      roomId: args.roomId,
-      movieId: args.movieId,
-      participantId: args.participantId,
-      voteType: args.voteType,
-      votedAt: Date.now(),
-    });
+    // The first unanimous like ends the room for everyone when the host opted in
+    let isMatch = false;
+    if (room.endOnUnanimousMatch && voteType !== "dislike") {
+      isMatch = await isUnanimousMatch(ctx, args.roomId, args.movieId);
+      if (isMatch) {
+        await completeRoom(ctx, room, { reason: "unanimous_match", winningMovieId: args.movieId });
+      }
+    }
 
-    return { voteId, updated: false };
+    return { voteId, updated, isMatch };
+  },
+});
+
+// Skip a card whose time limit ran out; it counts as an abstention, not a vote
+export const skipCard = mutation({
+  args: {
+    roomId: v.id("rooms"),
+    movieId: v.id("movies"),
+  },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    if (!isVotingStarted(room)) {
+      throw new Error(`Room is ${room.status}`);
+    }
+
+    const { participantId } = await requireParticipant(ctx, args.roomId);
+    const recorded = await recordAbstention(ctx, args.roomId, args.movieId, participantId);
+
+    return { recorded };
   },
 });
 
@@ -91,18 +241,64 @@ export const getVotes = query({
   },
 });
 
-// Get voting progress for a room
-export const getVotingProgress = query({
+// Where the caller is in the deck: the first card (in deck order) they haven't voted on
+// or skipped.
+// Derived from their votes so it survives app restarts and follows them across devices.
+export const getVotingCursor = query({
   args: {
     roomId: v.id("rooms"),
   },
   handler: async (ctx, args) => {
-    // Get all participants
-    const participants = await ctx.db
-      .query("roomParticipants")
+    const participantId = await getCallerId(ctx);
+
+    // Same ordering as votingMovies.getRoomMovies
+    const roomMovies = await ctx.db
+      .query("roomMovies")
       .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .order("asc")
       .collect();
 
+    const movieIds = (
+      await Promise.all(roomMovies.map((rm) => ctx.db.get(rm.movieId)))
+    )
+      .filter((movie) => movie !== null)
+      .map((movie) => movie._id);
+
+    const myVotes = participantId
+      ? await ctx.db
+          .query("votes")
+          .withIndex("by_participant", (q) => q.eq("participantId", participantId))
+          .filter((q) => q.eq(q.field("roomId"), args.roomId))
+          .collect()
+      : [];
+    const votedMovieIds = new Set(myVotes.map((vote) => vote.movieId));
+    const abstainedMovieIds = participantId
+      ? await getAbstainedMovieIds(ctx, args.roomId, participantId)
+      : new Set<Id<"movies">>();
+
+    const nextIndex = movieIds.findIndex(
+      (movieId) => !votedMovieIds.has(movieId) && !abstainedMovieIds.has(movieId)
+    );
+
+    return {
+      nextIndex: nextIndex === -1 ? movieIds.length : nextIndex,
+      votedCount: movieIds.filter((movieId) => votedMovieIds.has(movieId)).length,
+      totalMovies: movieIds.length,
+    };
+  },
+});
+
+// Get voting progress for a room
+export const getVotingProgress = query({
+  args: {
+    roomId: v.id("rooms"),
+  },
+  handler: async (ctx, args) => {
+    // Participants who dropped off (see getParticipantActivity) aren't waited for
+    const activity = await getParticipantActivity(ctx, args.roomId);
+    const participants = activity.filter((a) => a.isCounted).map((a) => a.participant);
+    const inactiveParticipants = activity.filter((a) => !a.isCounted).map((a) => a.participant);
+
     const totalParticipants = participants.length;
     const completedParticipants = participants.filter(
       (p) => p.votingCompletedAt !== undefined
@@ -125,27 +321,32 @@ export const getVotingProgress = query({
       participantIds: participants.map((p) => p.participantId),
       completedParticipantIds: completedParticipants.map((p) => p.participantId),
       pendingParticipantIds: pendingParticipants.map((p) => p.participantId),
+      inactiveParticipantIds: inactiveParticipants.map((p) => p.participantId),
+      displayNames: Object.fromEntries(
+        activity.map(({ participant }) => [participant.participantId, displayNameOf(participant)])
+      ),
     };
   },
 });
 
-// Get voting results with match scores
+// Get voting results with match scores (vetoed movies are left out)
 export const getResults = query({
   args: {
     roomId: v.id("rooms"),
   },
   handler: async (ctx, args) => {
+    const vetoedMovieIds = await getVetoedMovieIds(ctx, args.roomId);
+
     // Get all votes for the room
-    const votes = await ctx.db
-      .query("votes")
-      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
-      .collect();
+    const votes = (
+      await ctx.db
+        .query("votes")
+        .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+        .collect()
+    ).filter((vote) => !vetoedMovieIds.has(vote.movieId));
 
-    // Get all participants
-    const participants = await ctx.db
-      .query("roomParticipants")
-      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
-      .collect();
+    // Participants still taking part (inactive ones don't lower the match score)
+    const participants = await getCountedParticipants(ctx, args.roomId);
 
     const totalParticipants = participants.length;
 
@@ -162,7 +363,7 @@ export const getResults = query({
           };
         }
 
-        if (vote.voteType === "like") {
+        if (isPositiveVote(vote)) {
           acc[movieIdStr].likes++;
         } else {
           acc[movieIdStr].dislikes++;
@@ -196,10 +397,11 @@ export const getResults = query({
           movieData.likes === totalParticipants &&
           movieData.dislikes === 0;
 
-        // Calculate match percentage
+        // Match percentage against the votes actually cast, so a room finished
+        // before everyone voted isn't penalised for the missing votes
         const matchScore =
-          totalParticipants > 0
-            ? Math.round((movieData.likes / totalParticipants) * 100)
+          movieData.voters.size > 0
+            ? Math.round((movieData.likes / movieData.voters.size) * 100)
             : 0;
 
         return {
@@ -220,82 +422,70 @@ export const getResults = query({
   },
 });
 
-// Get detailed voting results with individual vote information
+// Get detailed voting results with individual vote information.
+// Match percentages follow the room's voting mode (see voteScoring.ts); vetoed
+// movies are listed separately instead of being ranked.
 export const getDetailedResults = query({
   args: {
     roomId: v.id("rooms"),
   },
   handler: async (ctx, args) => {
-    // Get all votes for the room
-    const votes = await ctx.db
-      .query("votes")
+    const room = await ctx.db.get(args.roomId);
+    const votingMode = room?.votingMode ?? "like_dislike";
+
+    const vetoes = await ctx.db
+      .query("vetoes")
       .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
       .collect();
+    const vetoedMovieIds = new Set(vetoes.map((veto) => veto.movieId));
+
+    // Get all votes for the room
+    const votes = (
+      await ctx.db
+        .query("votes")
+        .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+        .collect()
+    ).filter((vote) => !vetoedMovieIds.has(vote.movieId));
 
     // Get all participants
-    const participants = await ctx.db
-      .query("roomParticipants")
-      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
-      .collect();
+    const participants = await getParticipantActivity(ctx, args.roomId);
+    const displayName = await getDisplayNames(ctx, args.roomId);
 
     // Group votes by movie
     const movieVotes = votes.reduce(
       (acc, vote) => {
         const movieIdStr = vote.movieId;
         if (!acc[movieIdStr]) {
-          acc[movieIdStr] = {
-            movieId: vote.movieId,
-            likes: 0,
-            dislikes: 0,
-            votingDetails: [],
-          };
-        }
-
-        // Add vote detail
-        acc[movieIdStr].votingDetails.push({
-          participantId: vote.participantId,
-          vote: vote.voteType === "like",
-        });
-
-        if (vote.voteType === "like") {
-          acc[movieIdStr].likes++;
-        } else {
-          acc[movieIdStr].dislikes++;
+          acc[movieIdStr] = [];
         }
-
+        acc[movieIdStr].push(vote);
         return acc;
       },
-      {} as Record<
-        string,
-        {
-          movieId: any;
-          likes: number;
-          dislikes: number;
-          votingDetails: Array<{ participantId: string; vote: boolean }>;
-        }
-      >
+      {} as Record<string, Doc<"votes">[]>
     );
 
     // Calculate match scores and include detailed vote information
     const results = await Promise.all(
       Object.values(movieVotes)
-        .filter((movieData) => movieData.likes > 0) // Only movies with at least one like
-        .map(async (movieData) => {
-          const movie = await ctx.db.get(movieData.movieId);
-
-          const totalVotes = movieData.votingDetails.length;
-          const matchPercentage =
-            totalVotes > 0
-              ? Math.round((movieData.likes / totalVotes) * 100)
-              : 0;
+        .filter((votesForMovie) => votesForMovie.some(isPositiveVote)) // Only movies with at least one like
+        .map(async (votesForMovie) => {
+          const movie = await ctx.db.get(votesForMovie[0].movieId);
+          const positiveVotes = votesForMovie.filter(isPositiveVote).length;
 
           return {
             movie,
-            totalVotes,
-            positiveVotes: movieData.likes,
-            negativeVotes: movieData.dislikes,
-            matchPercentage,
-            votingDetails: movieData.votingDetails,
+            totalVotes: votesForMovie.length,
+            positiveVotes,
+            negativeVotes: votesForMovie.length - positiveVotes,
+            superlikes: votesForMovie.filter((vote) => vote.voteType === "superlike").length,
+            matchPercentage: scoreVotes(votesForMovie, votingMode),
+            votingDetails: votesForMovie.map((vote) => ({
+              participantId: vote.participantId,
+              displayName: displayName(vote.participantId),
+              vote: isPositiveVote(vote),
+              voteType: vote.voteType,
+              score: vote.score,
+            })),
           };
         })
     );
@@ -307,61 +497,102 @@ export const getDetailedResults = query({
         b.positiveVotes - a.positiveVotes
     );
 
+    // One entry per title, however many people vetoed it
+    const vetoesByMovie = new Map<Id<"movies">, Doc<"vetoes">[]>();
+    for (const veto of vetoes) {
+      vetoesByMovie.set(veto.movieId, [...(vetoesByMovie.get(veto.movieId) ?? []), veto]);
+    }
+
+    const vetoedMovies = await Promise.all(
+      [...vetoesByMovie].map(async ([movieId, movieVetoes]) => ({
+        movie: await ctx.db.get(movieId),
+        vetoCount: movieVetoes.length,
+        // Anonymous rooms don't reveal who spent the vetoes
+        vetoedBy: room?.anonymousVetoes
+          ? null
+          : movieVetoes.map((veto) => displayName(veto.participantId)),
+      }))
+    );
+
     return {
       results,
-      participants: participants.map((p) => ({
-        participantId: p.participantId,
-        votingCompletedAt: p.votingCompletedAt,
+      vetoedMovies,
+      completionReason: room?.completionReason ?? null,
+      winningMovieId: room?.winningMovieId ?? null,
+      votingMode,
+      runoffSize: room?.runoffSize ?? null,
+      participants: participants.map(({ participant, isCounted }) => ({
+        participantId: participant.participantId,
+        displayName: displayNameOf(participant),
+        votingCompletedAt: participant.votingCompletedAt,
+        isCounted,
       })),
     };
   },
 });
 
-// Mark voting as complete for a participant
+// Get the caller's veto allowance and which movies they have vetoed
+export const getVetoStatus = query({
+  args: {
+    roomId: v.id("rooms"),
+  },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    const allowance = room?.vetoesPerParticipant ?? 0;
+    const participantId = await getCallerId(ctx);
+
+    const myVetoes = participantId
+      ? await ctx.db
+          .query("vetoes")
+          .withIndex("by_participant_and_room", (q) =>
+            q.eq("participantId", participantId).eq("roomId", args.roomId)
+          )
+          .collect()
+      : [];
+
+    return {
+      allowance,
+      remaining: Math.max(0, allowance - myVetoes.length),
+      vetoedMovieIds: myVetoes.map((veto) => veto.movieId),
+    };
+  },
+});
+
+// Mark voting as complete for the caller; the last counted participant to
+// finish completes the room
 export const markVotingComplete = mutation({
   args: {
     roomId: v.id("rooms"),
-    participantName: v.string(),
   },
   handler: async (ctx, args) => {
-    // Find the participant
-    const participant = await ctx.db
-      .query("roomParticipants")
-      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
-      .filter((q) => q.eq(q.field("participantId"), args.participantName))
-      .first();
+    const participant = await requireParticipant(ctx, args.roomId);
 
-    if (!participant) {
-      throw new Error("Participant not found in room");
+    // Finishing again (e.g. a retried request) keeps the original timestamp
+    if (participant.votingCompletedAt === undefined) {
+      await ctx.db.patch(participant._id, {
+        votingCompletedAt: Date.now(),
+      });
     }
 
-    // Update voting completion timestamp
-    await ctx.db.patch(participant._id, {
-      votingCompletedAt: Date.now(),
-    });
+    await completeIfEveryoneFinished(ctx, args.roomId);
 
     return { success: true };
   },
 });
 
-// Reset voting completion for a participant (allows re-voting)
+// Reset voting completion for the caller (allows re-voting)
 export const resetVotingCompletion = mutation({
   args: {
     roomId: v.id("rooms"),
-    participantId: v.string(),
   },
   handler: async (ctx, args) => {
-    // Find the participant
-    const participant = await ctx.db
-      .query("roomParticipants")
-      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
-      .filter((q) => q.eq(q.field("participantId"), args.participantId))
-      .first();
-
-    if (!participant) {
-      throw new Error("Participant not found in room");
+    const room = await ctx.db.get(args.roomId);
+    if (room && !isRoomOpen(room)) {
+      throw new Error(`Room is ${room.status}`);
     }
 
+    const participant = await requireParticipant(ctx, args.roomId);
+
     // Remove voting completion timestamp
     await ctx.db.patch(participant._id, {
       votingCompletedAt: undefined,
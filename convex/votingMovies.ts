@@ -1,61 +1,285 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { WithoutSystemFields } from "convex/server";
+import { getCallerId, getDisplayNames, requireParticipant } from "./participants";
 
-// Add or get a movie for voting
+// Append movies to the end of a room's deck, skipping any already in it and
+// stopping once the deck reaches maxDeckSize. Backfills can overlap (several
+// lobby joins, the share screen), so this re-reads the deck in the same
+// transaction rather than trusting the caller's view of it.
+export async function appendToDeck(
+  ctx: MutationCtx,
+  roomId: Id<"rooms">,
+  movieIds: Id<"movies">[],
+  nominatedBy?: string,
+  maxDeckSize?: number
+): Promise<{ added: number; deckSize: number }> {
+  const deck = await ctx.db
+    .query("roomMovies")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .collect();
+  const linked = new Set(deck.map((link) => link.movieId));
+  let position = deck.length > 0 ? deck[deck.length - 1].position + 1 : 0;
+  let added = 0;
+
+  // Add each movie-room link with position
+  for (const movieId of movieIds) {
+    if (maxDeckSize !== undefined && linked.size >= maxDeckSize) break;
+    if (linked.has(movieId)) continue;
+
+    await ctx.db.insert("roomMovies", { roomId, movieId, position: position++, nominatedBy });
+    linked.add(movieId);
+    added++;
+  }
+
+  return { added, deckSize: linked.size };
+}
+
+// Add or get a movie (or TV show) for voting.
+// When called with fresher TMDB details than the stored row, the row is refreshed.
+export async function upsertMovie(
+  ctx: MutationCtx,
+  args: Omit<WithoutSystemFields<Doc<"movies">>, "createdAt">
+): Promise<Id<"movies">> {
+  const mediaType = args.mediaType ?? "movie";
+
+  // Check if movie already exists (TMDB reuses IDs across movies and TV)
+  const candidates = await ctx.db
+    .query("movies")
+    .withIndex("by_tmdb_id", (q) => q.eq("tmdbId", args.tmdbId))
+    .collect();
+  const existingMovie = candidates.find((movie) => (movie.mediaType ?? "movie") === mediaType);
+
+  if (existingMovie) {
+    const hasFresherDetails =
+      args.detailsUpdatedAt !== undefined &&
+      args.detailsUpdatedAt > (existingMovie.detailsUpdatedAt ?? 0);
+
+    if (hasFresherDetails) {
+      await ctx.db.patch(existingMovie._id, {
+        posterPath: args.posterPath ?? existingMovie.posterPath,
+        streamingPlatforms: args.streamingPlatforms,
+        voteAverage: args.voteAverage,
+        runtime: args.runtime,
+        director: args.director,
+        cast: args.cast,
+        numberOfSeasons: args.numberOfSeasons,
+        episodeRuntime: args.episodeRuntime,
+        detailsUpdatedAt: args.detailsUpdatedAt,
+        traktId: existingMovie.traktId ?? args.traktId,
+        imdbId: existingMovie.imdbId ?? args.imdbId,
+      });
+    }
+
+    return existingMovie._id;
+  }
+
+  // Create new movie
+  const movieId = await ctx.db.insert("movies", {
+    tmdbId: args.tmdbId,
+    mediaType,
+    title: args.title,
+    overview: args.overview,
+    posterPath: args.posterPath,
+    releaseDate: args.releaseDate,
+    genreIds: args.genreIds,
+    streamingPlatforms: args.streamingPlatforms,
+    voteAverage: args.voteAverage,
+    runtime: args.runtime,
+    director: args.director,
+    cast: args.cast,
+    numberOfSeasons: args.numberOfSeasons,
+    episodeRuntime: args.episodeRuntime,
+    detailsUpdatedAt: args.detailsUpdatedAt,
+    traktId: args.traktId,
+    imdbId: args.imdbId,
+    createdAt: Date.now(),
+  });
+
+  return movieId;
+}
+
+// Add or get a movie for voting (see upsertMovie)
 export const addMovie = mutation({
   args: {
     tmdbId: v.number(),
+    mediaType: v.optional(v.union(v.literal("movie"), v.literal("tv"))),
     title: v.string(),
     overview: v.optional(v.string()),
     posterPath: v.optional(v.string()),
     releaseDate: v.optional(v.string()),
     genreIds: v.optional(v.array(v.number())),
     streamingPlatforms: v.optional(v.any()),
+    voteAverage: v.optional(v.number()),
+    runtime: v.optional(v.number()),
+    director: v.optional(v.string()),
+    cast: v.optional(v.array(v.string())),
+    numberOfSeasons: v.optional(v.number()),
+    episodeRuntime: v.optional(v.number()),
+    detailsUpdatedAt: v.optional(v.number()),
+    traktId: v.optional(v.number()),
+    imdbId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    // Check if movie already exists
-    const existingMovie = await ctx.db
-      .query("movies")
-      .withIndex("by_tmdb_id", (q) => q.eq("tmdbId", args.tmdbId))
-      .first();
+    return await upsertMovie(ctx, args);
+  },
+});
+
+// Link movies to a room
+export const linkMoviesToRoom = mutation({
+  args: {
+    roomId: v.id("rooms"),
+    movieIds: v.array(v.id("movies")),
+    maxDeckSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    // Append after any movies already in the deck
+    const { added, deckSize } = await appendToDeck(
+      ctx,
+      args.roomId,
+      args.movieIds,
+      undefined,
+      args.maxDeckSize
+    );
+
+    return { success: true, count: added, deckSize };
+  },
+});
+
+// Nominate a title for the room's deck during the lobby
+export const nominateMovie = mutation({
+  args: {
+    roomId: v.id("rooms"),
+    movieId: v.id("movies"),
+  },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (!room) {
+      throw new Error("Room not found");
+    }
 
-    if (existingMovie) {
-      return existingMovie._id;
+    if (!room.nominationsPerParticipant) {
+      throw new Error("This room doesn't take nominations");
     }
 
-    // Create new movie
-    const movieId = await ctx.db.insert("movies", {
-      tmdbId: args.tmdbId,
-      title: args.title,
-      overview: args.overview,
-      posterPath: args.posterPath,
-      releaseDate: args.releaseDate,
-      genreIds: args.genreIds,
-      streamingPlatforms: args.streamingPlatforms,
-      createdAt: Date.now(),
-    });
+    if (room.status !== "lobby") {
+      throw new Error("Nominations close when voting starts");
+    }
 
-    return movieId;
+    const movie = await ctx.db.get(args.movieId);
+    if (!movie) {
+      throw new Error("Movie not found");
+    }
+
+    if ((movie.mediaType ?? "movie") !== (room.mediaType ?? "movie")) {
+      throw new Error(room.mediaType === "tv" ? "This room is voting on TV shows" : "This room is voting on movies");
+    }
+
+    const { participantId } = await requireParticipant(ctx, args.roomId);
+
+    const deck = await ctx.db
+      .query("roomMovies")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .collect();
+
+    const existing = deck.find((link) => link.movieId === args.movieId);
+    if (existing) {
+      throw new Error(existing.nominatedBy ? "That title has already been nominated" : "That title is already in the deck");
+    }
+
+    const myNominations = deck.filter((link) => link.nominatedBy === participantId);
+    if (myNominations.length >= room.nominationsPerParticipant) {
+      throw new Error(`You can only nominate ${room.nominationsPerParticipant} title${room.nominationsPerParticipant === 1 ? "" : "s"}`);
+    }
+
+    await appendToDeck(ctx, args.roomId, [args.movieId], participantId);
+
+    return { success: true, nominationsLeft: room.nominationsPerParticipant - myNominations.length - 1 };
   },
 });
 
-// Link movies to a room
-export const linkMoviesToRoom = mutation({
+// Take back one of the caller's nominations before voting starts
+export const withdrawNomination = mutation({
   args: {
     roomId: v.id("rooms"),
-    movieIds: v.array(v.id("movies")),
+    movieId: v.id("movies"),
   },
   handler: async (ctx, args) => {
-    // Add each movie-room link with position
-    for (let i = 0; i < args.movieIds.length; i++) {
-      await ctx.db.insert("roomMovies", {
-        roomId: args.roomId,
-        movieId: args.movieIds[i],
-        position: i,
+    const room = await ctx.db.get(args.roomId);
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    if (room.status !== "lobby") {
+      throw new Error("Nominations close when voting starts");
+    }
+
+    const { participantId } = await requireParticipant(ctx, args.roomId);
+
+    const link = await ctx.db
+      .query("roomMovies")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .filter((q) =>
+        q.and(q.eq(q.field("movieId"), args.movieId), q.eq(q.field("nominatedBy"), participantId))
+      )
+      .first();
+
+    if (!link) {
+      throw new Error("You haven't nominated that title");
+    }
+
+    await ctx.db.delete(link._id);
+    return { success: true };
+  },
+});
+
+// Nominations made so far, with the caller's own picks and how many they have left
+export const getNominations = query({
+  args: {
+    roomId: v.id("rooms"),
+  },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (!room || !room.nominationsPerParticipant) {
+      return null;
+    }
+
+    const links = await ctx.db
+      .query("roomMovies")
+      .withIndex("by_room", (q) => q.eq("roomId", args.roomId))
+      .collect();
+
+    const displayName = await getDisplayNames(ctx, args.roomId);
+    const nominations = [];
+    for (const { movieId, nominatedBy } of links) {
+      if (!nominatedBy) continue;
+
+      const movie = await ctx.db.get(movieId);
+      if (!movie) continue;
+
+      nominations.push({
+        movieId: movie._id,
+        tmdbId: movie.tmdbId,
+        title: movie.title,
+        posterPath: movie.posterPath ?? null,
+        releaseDate: movie.releaseDate ?? null,
+        participantId: nominatedBy,
+        nominatedBy: displayName(nominatedBy),
       });
     }
 
-    return { success: true, count: args.movieIds.length };
+    const callerId = await getCallerId(ctx);
+    const mine = nominations.filter((nomination) => nomination.participantId === callerId);
+
+    return {
+      limit: room.nominationsPerParticipant,
+      nominationsOnly: room.nominationsOnly ?? false,
+      mediaType: room.mediaType ?? "movie",
+      nominations,
+      myNominations: mine,
+      nominationsLeft: Math.max(0, room.nominationsPerParticipant - mine.length),
+    };
   },
 });
 
@@ -73,12 +297,16 @@ export const getMovie = query({
 export const getMovieByTmdbId = query({
   args: {
     tmdbId: v.number(),
+    mediaType: v.optional(v.union(v.literal("movie"), v.literal("tv"))),
   },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const mediaType = args.mediaType ?? "movie";
+    const candidates = await ctx.db
       .query("movies")
       .withIndex("by_tmdb_id", (q) => q.eq("tmdbId", args.tmdbId))
-      .first();
+      .collect();
+
+    return candidates.find((movie) => (movie.mediaType ?? "movie") === mediaType) ?? null;
   },
 });
 
@@ -100,7 +328,15 @@ export const getRoomMovies = query({
       roomMovies.map((rm) => ctx.db.get(rm.movieId))
     );
 
+    // Cards show who nominated them
+    const displayName = await getDisplayNames(ctx, args.roomId);
+
     // Filter out any null values (in case a movie was deleted)
-    return movies.filter((movie) => movie !== null);
+    return movies
+      .map((movie, i) => {
+        const nominatedBy = roomMovies[i].nominatedBy;
+        return movie && { ...movie, nominatedBy: nominatedBy ? displayName(nominatedBy) : null };
+      })
+      .filter((movie) => movie !== null);
   },
 });
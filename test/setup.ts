@@ -27,17 +27,25 @@ jest.mock("@react-native-async-storage/async-storage", () =>
   require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
 )
 
-jest.mock("i18n-js", () => ({
-  currentLocale: () => "en",
-  t: (key: string, params: Record<string, string>) => {
-    return `${key} ${JSON.stringify(params)}`
-  },
-}))
+// Virtual, so the mocks don't need the i18n packages installed
+jest.mock(
+  "i18n-js",
+  () => ({
+    currentLocale: () => "en",
+    t: (key: string, params: Record<string, string>) => {
+      return `${key} ${JSON.stringify(params)}`
+    },
+  }),
+  { virtual: true },
+)
 
-jest.mock("expo-localization", () => ({
-  ...jest.requireActual("expo-localization"),
-  getLocales: () => [{ languageTag: "en-US", textDirection: "ltr" }],
-}))
+jest.mock(
+  "expo-localization",
+  () => ({
+    getLocales: () => [{ languageTag: "en-US", textDirection: "ltr" }],
+  }),
+  { virtual: true },
+)
 
 declare const tron // eslint-disable-line @typescript-eslint/no-unused-vars
 
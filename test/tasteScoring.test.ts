@@ -0,0 +1,147 @@
+import { Doc, Id } from "../convex/_generated/dataModel"
+import {
+  interleaveForVariety,
+  predictGroupScore,
+  predictScore,
+  toTaste,
+  voteWeight,
+} from "../convex/tasteScoring"
+
+// fixtures
+function vote(voteType: Doc<"votes">["voteType"], score?: number): Doc<"votes"> {
+  return {
+    _id: "vote" as Id<"votes">,
+    _creationTime: 0,
+    roomId: "room" as Id<"rooms">,
+    movieId: "movie" as Id<"movies">,
+    participantId: "alice",
+    voteType,
+    score,
+    votedAt: 0,
+  }
+}
+
+function movie(overrides: Partial<Doc<"movies">> = {}): Doc<"movies"> {
+  return {
+    _id: "movie" as Id<"movies">,
+    _creationTime: 0,
+    tmdbId: 1,
+    title: "Movie",
+    createdAt: 0,
+    ...overrides,
+  }
+}
+
+function taste(overrides: Partial<Doc<"tasteProfiles">> = {}) {
+  return toTaste({
+    _id: "profile" as Id<"tasteProfiles">,
+    _creationTime: 0,
+    userId: "user" as Id<"users">,
+    genres: [],
+    decades: [],
+    people: [],
+    likedRatingTotal: 0,
+    likedRatingCount: 0,
+    votesCounted: 1,
+    updatedAt: 0,
+    ...overrides,
+  })
+}
+
+describe("voteWeight", () => {
+  test("likes count positive, dislikes negative and super likes double", () => {
+    expect(voteWeight(vote("like"))).toBe(1)
+    expect(voteWeight(vote("dislike"))).toBe(-1)
+    expect(voteWeight(vote("superlike"))).toBe(2)
+  })
+
+  test("star votes scale from -1 to 1 around three stars", () => {
+    expect(voteWeight(vote("dislike", 1))).toBe(-1)
+    expect(voteWeight(vote("like", 3))).toBe(0)
+    expect(voteWeight(vote("like", 4))).toBe(0.5)
+    expect(voteWeight(vote("like", 5))).toBe(1)
+  })
+})
+
+describe("predictScore", () => {
+  const profile = taste({
+    genres: [{ genreId: 28, score: 4 }],
+    decades: [{ decade: 1990, score: 2 }],
+    people: [{ name: "Christopher Nolan", score: 2 }],
+    likedRatingTotal: 14,
+    likedRatingCount: 2,
+    votesCounted: 4,
+  })
+
+  test("adds genre, decade and people scores, normalized by votes counted", () => {
+    const score = predictScore(
+      profile,
+      movie({
+        genreIds: [28, 12],
+        releaseDate: "1999-05-01",
+        director: "Christopher Nolan",
+        voteAverage: 8,
+      }),
+    )
+
+    expect(score).toBeCloseTo(2)
+  })
+
+  test("only the leading cast members count", () => {
+    const cast = ["A", "B", "C", "Christopher Nolan"]
+
+    expect(predictScore(profile, movie({ cast }))).toBe(0)
+    expect(predictScore(profile, movie({ cast: cast.slice(1) }))).toBeCloseTo(0.5)
+  })
+
+  test("titles rated below what they usually like are marked down", () => {
+    const score = predictScore(profile, movie({ genreIds: [28], voteAverage: 5 }))
+
+    expect(score).toBeCloseTo(1 - 0.2)
+  })
+
+  test("an unknown title scores zero", () => {
+    expect(predictScore(taste(), movie())).toBe(0)
+  })
+})
+
+describe("predictGroupScore", () => {
+  const title = movie({ genreIds: [1] })
+
+  test("a group that agrees gets the shared score", () => {
+    const tastes = [
+      taste({ genres: [{ genreId: 1, score: 2 }] }),
+      taste({ genres: [{ genreId: 1, score: 2 }] }),
+    ]
+
+    expect(predictGroupScore(tastes, title)).toBeCloseTo(2)
+  })
+
+  test("disagreement pushes a title back", () => {
+    const tastes = [
+      taste({ genres: [{ genreId: 1, score: 1 }] }),
+      taste({ genres: [{ genreId: 1, score: 3 }] }),
+    ]
+
+    // Mean of 2, less half the standard deviation of 1
+    expect(predictGroupScore(tastes, title)).toBeCloseTo(1.5)
+  })
+})
+
+describe("interleaveForVariety", () => {
+  const sorted = [1, 2, 3, 4, 5, 6, 7, 8]
+
+  test("deals every fourth card at random from the rest", () => {
+    expect(interleaveForVariety(sorted, () => 0.99)).toEqual([1, 2, 3, 8, 4, 5, 6, 7])
+  })
+
+  test("keeps the sorted order when the random pick is the next best card", () => {
+    expect(interleaveForVariety(sorted, () => 0)).toEqual(sorted)
+  })
+
+  test("deals every card exactly once", () => {
+    const dealt = interleaveForVariety(sorted)
+
+    expect([...dealt].sort((a, b) => a - b)).toEqual(sorted)
+  })
+})
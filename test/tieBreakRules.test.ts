@@ -0,0 +1,79 @@
+import { Doc, Id } from "../convex/_generated/dataModel"
+import { resolveByMetadata } from "../convex/tieBreakRules"
+
+// fixtures
+function movie(id: string, overrides: Partial<Doc<"movies">> = {}): Doc<"movies"> {
+  return {
+    _id: id as Id<"movies">,
+    _creationTime: 0,
+    tmdbId: 1,
+    title: id,
+    createdAt: 0,
+    ...overrides,
+  }
+}
+
+afterEach(() => jest.restoreAllMocks())
+
+describe("resolveByMetadata", () => {
+  test("nothing to pick from resolves to null", () => {
+    expect(resolveByMetadata("coin_flip", [])).toBeNull()
+  })
+
+  test("rating picks the highest TMDB rating", () => {
+    const movies = [movie("a", { voteAverage: 6.5 }), movie("b", { voteAverage: 8.1 }), movie("c")]
+
+    expect(resolveByMetadata("rating", movies)).toEqual({
+      winningMovieId: "b",
+      usedCoinFlip: false,
+    })
+  })
+
+  test("runtime picks the shortest, using episode length for TV", () => {
+    const movies = [
+      movie("a", { runtime: 120 }),
+      movie("b", { mediaType: "tv", runtime: 30, episodeRuntime: 45 }),
+      movie("c", { runtime: 95 }),
+    ]
+
+    expect(resolveByMetadata("runtime", movies)).toEqual({
+      winningMovieId: "b",
+      usedCoinFlip: false,
+    })
+  })
+
+  test("titles missing the value never win", () => {
+    const movies = [movie("a"), movie("b", { runtime: 150 })]
+
+    expect(resolveByMetadata("runtime", movies)?.winningMovieId).toBe("b")
+  })
+
+  test("a tie on the value falls back to a coin flip among the leaders", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0.99)
+    const movies = [
+      movie("a", { voteAverage: 7 }),
+      movie("b", { voteAverage: 7 }),
+      movie("c", { voteAverage: 5 }),
+    ]
+
+    expect(resolveByMetadata("rating", movies)).toEqual({ winningMovieId: "b", usedCoinFlip: true })
+  })
+
+  test("no values at all leaves every title in the coin flip", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0)
+
+    expect(resolveByMetadata("rating", [movie("a"), movie("b")])).toEqual({
+      winningMovieId: "a",
+      usedCoinFlip: true,
+    })
+  })
+
+  test("coin_flip always reports a coin flip", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0.5)
+
+    expect(resolveByMetadata("coin_flip", [movie("a"), movie("b")])).toEqual({
+      winningMovieId: "b",
+      usedCoinFlip: true,
+    })
+  })
+})
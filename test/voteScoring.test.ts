@@ -0,0 +1,160 @@
+import { Doc, Id } from "../convex/_generated/dataModel"
+import {
+  getRejectedOnBalance,
+  isPositiveVote,
+  rankMovies,
+  runInstantRunoff,
+  scoreVotes,
+} from "../convex/voteScoring"
+
+// fixtures
+const movieId = (id: string) => id as Id<"movies">
+
+function vote(
+  voteType: Doc<"votes">["voteType"],
+  overrides: Partial<Doc<"votes">> = {},
+): Doc<"votes"> {
+  return {
+    _id: "vote" as Id<"votes">,
+    _creationTime: 0,
+    roomId: "room" as Id<"rooms">,
+    movieId: movieId("a"),
+    participantId: "alice",
+    voteType,
+    votedAt: 0,
+    ...overrides,
+  }
+}
+
+describe("isPositiveVote", () => {
+  test("likes and super likes count in a movie's favour", () => {
+    expect(isPositiveVote(vote("like"))).toBe(true)
+    expect(isPositiveVote(vote("superlike"))).toBe(true)
+    expect(isPositiveVote(vote("dislike"))).toBe(false)
+  })
+})
+
+describe("scoreVotes", () => {
+  test("no votes scores zero", () => {
+    expect(scoreVotes([], "like_dislike")).toBe(0)
+  })
+
+  test("like_dislike is the share of likes", () => {
+    expect(scoreVotes([vote("like"), vote("like"), vote("dislike")], "like_dislike")).toBe(67)
+  })
+
+  test("superlike weighs super likes double, out of all super likes", () => {
+    expect(scoreVotes([vote("superlike"), vote("like"), vote("dislike")], "superlike")).toBe(50)
+    expect(scoreVotes([vote("superlike"), vote("superlike")], "superlike")).toBe(100)
+  })
+
+  test("stars averages ratings, treating plain likes and dislikes as 5 and 1", () => {
+    expect(scoreVotes([vote("like", { score: 4 }), vote("dislike", { score: 2 })], "stars")).toBe(
+      60,
+    )
+    expect(scoreVotes([vote("like"), vote("dislike")], "stars")).toBe(60)
+  })
+})
+
+describe("rankMovies", () => {
+  test("ranks by score, then by positive votes", () => {
+    const votes = [
+      vote("like", { movieId: movieId("a") }),
+      vote("dislike", { movieId: movieId("a") }),
+      vote("like", { movieId: movieId("b") }),
+      vote("like", { movieId: movieId("c") }),
+      vote("like", { movieId: movieId("c") }),
+    ]
+
+    expect(rankMovies(votes, "like_dislike")).toEqual([
+      { movieId: "c", score: 100, positiveVotes: 2 },
+      { movieId: "b", score: 100, positiveVotes: 1 },
+      { movieId: "a", score: 50, positiveVotes: 1 },
+    ])
+  })
+})
+
+describe("runInstantRunoff", () => {
+  const [a, b, c] = [movieId("a"), movieId("b"), movieId("c")]
+
+  test("no ballots has no winner", () => {
+    expect(runInstantRunoff([a, b], [])).toEqual({ winnerId: null, rounds: [] })
+  })
+
+  test("a first-round majority wins outright", () => {
+    const { winnerId, rounds } = runInstantRunoff(
+      [a, b, c],
+      [
+        [a, b],
+        [a, c],
+        [b, a],
+      ],
+    )
+
+    expect(winnerId).toBe(a)
+    expect(rounds).toHaveLength(1)
+    expect(rounds[0].eliminatedId).toBeNull()
+  })
+
+  test("eliminates the fewest votes and transfers those ballots", () => {
+    const ballots = [[a], [a], [b], [b], [c, b]]
+    const { winnerId, rounds } = runInstantRunoff([a, b, c], ballots)
+
+    expect(rounds[0].tallies).toEqual([
+      { movieId: a, votes: 2 },
+      { movieId: b, votes: 2 },
+      { movieId: c, votes: 1 },
+    ])
+    expect(rounds[0].eliminatedId).toBe(c)
+    expect(winnerId).toBe(b)
+  })
+
+  test("a tie for last knocks out the lower seed", () => {
+    const { rounds } = runInstantRunoff([a, b, c], [[a], [a], [b], [c]])
+
+    expect(rounds[0].eliminatedId).toBe(c)
+  })
+
+  test("exhausted ballots don't count toward the majority", () => {
+    const { winnerId, rounds } = runInstantRunoff([a, b, c], [[a], [a], [b], [b], [c]])
+
+    // The lone c ballot ranks nothing else, so a and b stay tied and b, the
+    // lower seed, goes next
+    expect(rounds.map((round) => round.eliminatedId)).toEqual([c, b, null])
+    expect(winnerId).toBe(a)
+  })
+})
+
+describe("getRejectedOnBalance", () => {
+  const group = new Set(["alice", "bob"])
+
+  test("rejects movies with more dislikes than likes from the group", () => {
+    const votes = [
+      vote("dislike", { movieId: movieId("a"), participantId: "alice" }),
+      vote("dislike", { movieId: movieId("a"), participantId: "bob" }),
+      vote("like", { movieId: movieId("b"), participantId: "alice" }),
+      vote("dislike", { movieId: movieId("b"), participantId: "bob" }),
+    ]
+
+    expect(getRejectedOnBalance(votes, group)).toEqual(["a"])
+  })
+
+  test("super likes count as likes", () => {
+    const votes = [
+      vote("superlike", { participantId: "alice" }),
+      vote("dislike", { participantId: "bob" }),
+    ]
+
+    expect(getRejectedOnBalance(votes, group)).toEqual([])
+  })
+
+  test("ignores votes from people outside the group", () => {
+    const votes = [
+      vote("dislike", { participantId: "alice" }),
+      vote("like", { participantId: "carol" }),
+      vote("like", { participantId: "dave" }),
+    ]
+
+    expect(getRejectedOnBalance(votes, group)).toEqual(["a"])
+  })
+})